@@ -0,0 +1,114 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * Compares the lookup of the providers of a large injector hierarchy, indexed by key id, with the
+ * linear scan of `keyIds` the injectors performed before.
+ *
+ * Run with `npm run benchmark`. The timings depend on the machine, so they are not asserted.
+ */
+
+import { performance } from 'perf_hooks';
+
+import { ReflectiveInjector } from '../lib';
+import { ReflectiveInjector_ } from '../lib/reflective_injector';
+
+const ROOT_PROVIDERS = 2000;
+const CHILD_PROVIDERS = 50;
+const CHILDREN = 3;
+const PASSES = 20;
+const ROUNDS = 10;
+
+function createProviders(prefix: string, count: number): any[] {
+  const providers: any[] = [];
+  for (let i = 0; i < count; i++) {
+    providers.push({ provide: `${prefix}${i}`, useValue: i });
+  }
+  return providers;
+}
+
+function createHierarchy(): ReflectiveInjector_ {
+  let injector = ReflectiveInjector.resolveAndCreate(createProviders('root', ROOT_PROVIDERS));
+  for (let i = 0; i < CHILDREN; i++) {
+    injector = injector.resolveAndCreateChild(createProviders(`child${i}-`, CHILD_PROVIDERS));
+  }
+  return <ReflectiveInjector_>injector;
+}
+
+/**
+ * Replaces the index of the providers of an injector by the scan of `keyIds` the injectors
+ * performed before, counting the lookups to make sure the scan is the one being measured.
+ */
+class LinearIndex {
+  lookups = 0;
+
+  constructor(private _keyIds: number[]) {}
+
+  get(keyId: number): number | undefined {
+    this.lookups++;
+    for (let i = 0; i < this._keyIds.length; i++) {
+      if (this._keyIds[i] === keyId) {
+        return i;
+      }
+    }
+    return undefined;
+  }
+}
+
+function withLinearLookup(injector: ReflectiveInjector_): LinearIndex[] {
+  const indexes: LinearIndex[] = [];
+  let inj: any = injector;
+  while (inj instanceof ReflectiveInjector_) {
+    const index = new LinearIndex(inj.keyIds);
+    (<any>inj)._indexByKeyId = index;
+    indexes.push(index);
+    inj = inj.parent;
+  }
+  return indexes;
+}
+
+/**
+ * Returns the time, in milliseconds, taken to resolve every provider of the root injector from
+ * the leaf injector `PASSES` times.
+ */
+function measure(injector: ReflectiveInjector_): number {
+  const start = performance.now();
+  for (let pass = 0; pass < PASSES; pass++) {
+    for (let i = 0; i < ROOT_PROVIDERS; i++) {
+      injector.get(`root${i}`);
+    }
+  }
+  return performance.now() - start;
+}
+
+const linearInjector = createHierarchy();
+const linearIndexes = withLinearLookup(linearInjector);
+const indexedInjector = createHierarchy();
+
+// Warms both variants up, then alternates them to even out the drift of the machine.
+measure(linearInjector);
+measure(indexedInjector);
+let linear = Infinity;
+let indexed = Infinity;
+for (let round = 0; round < ROUNDS; round++) {
+  if (round % 2 === 0) {
+    linear = Math.min(linear, measure(linearInjector));
+    indexed = Math.min(indexed, measure(indexedInjector));
+  } else {
+    indexed = Math.min(indexed, measure(indexedInjector));
+    linear = Math.min(linear, measure(linearInjector));
+  }
+}
+
+if (linearIndexes.every(index => index.lookups === 0)) {
+  throw new Error('The linear scan has not been used by the lookup, the benchmark does not measure it');
+}
+
+console.log(`Resolving ${ROOT_PROVIDERS} root providers from ${CHILDREN} levels of children, ${PASSES} times:`);
+console.log(`  linear scan: ${linear.toFixed(2)} ms`);
+console.log(`  indexed:     ${indexed.toFixed(2)} ms (${(linear / indexed).toFixed(1)}x)`);
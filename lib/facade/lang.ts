@@ -58,6 +58,10 @@ export function isPresent<T>(obj: T): obj is NonNullable<T> {
   return obj != null;
 }
 
+export function getWellKnownSymbol(name: string): symbol | undefined {
+  return typeof Symbol === 'function' ? (<any>Symbol)[name] : undefined;
+}
+
 export function stringify(token: any): string {
   if (typeof token === 'string') {
     return token;
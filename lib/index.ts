@@ -17,11 +17,33 @@ export * from './metadata';
 export { forwardRef, resolveForwardRef, ForwardRefFn } from './forward_ref';
 
 export { Injector } from './injector';
-export { ReflectiveInjector } from './reflective_injector';
-export { Provider, TypeProvider, ValueProvider, ClassProvider, ExistingProvider, FactoryProvider } from './provider';
+export { InjectFlags, inject, runInInjectionContext } from './injection_context';
+export { InjectorObserver, InstantiatedEvent, ResolutionErrorEvent, ResolutionEvent } from './injector_observer';
+export { InjectorProfiler, ProfileReportEntry, TraceEvent } from './injector_profiler';
+export { OnDestroy } from './lifecycle_hooks';
+export { lazy, lazyEntries, getter, Lazy, Getter } from './lazy';
+export { MultiProviderOrder } from './multi_provider_order';
+export { ReflectiveInjector, ReflectiveInjectorOptions } from './reflective_injector';
+export { DependencyGraph, DependencyGraphEdge, DependencyGraphInjector, DependencyGraphNode } from './reflective_graph';
+export {
+  Provider,
+  TypeProvider,
+  ValueProvider,
+  ClassProvider,
+  ExistingProvider,
+  FactoryProvider,
+  AsyncFactoryProvider,
+  ProviderScope,
+  StaticProvider,
+  StaticClassProvider,
+  ConstructorProvider,
+} from './provider';
 export { ResolvedReflectiveFactory, ResolvedReflectiveProvider } from './reflective_provider';
 export { ReflectiveKey } from './reflective_key';
 export { InjectionToken, OpaqueToken } from './injection_token';
 export { Class, TypeDecorator, makeDecorator, makeParamDecorator, makePropDecorator } from './util/decorators';
+export { StandardClassDecoratorContext, StandardMemberDecoratorContext } from './util/standard_decorators';
 export { resolveDependencies } from './util/resolve_dependencies';
 export { Type, isType } from './facade/type';
+
+export * from './private_export';
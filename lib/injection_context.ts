@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Type } from './facade/type';
+import { InjectionToken } from './injection_token';
+import { Injector } from './injector';
+import { noInjectionContextError } from './reflective_errors';
+
+/**
+ * Modifiers of the lookup performed by {@link inject}, which can be combined with `|`.
+ *
+ * @experimental
+ */
+export enum InjectFlags {
+  Default = 0,
+  /** Like {@link Host}. */
+  Host = 1,
+  /** Like {@link Self}. */
+  Self = 2,
+  /** Like {@link SkipSelf}. */
+  SkipSelf = 4,
+  /** Like {@link Optional}. */
+  Optional = 8,
+}
+
+let _currentInjector: Injector | null = null;
+
+/**
+ * Resolves `token` from `injector` for {@link inject}.
+ * @internal
+ */
+export type InjectImplementation = (injector: Injector, token: any, flags: InjectFlags) => any;
+
+let _injectImplementation: InjectImplementation = (injector, token, flags) =>
+  flags & InjectFlags.Optional ? injector.get(token, null) : injector.get(token);
+
+/**
+ * Replaces how {@link inject} resolves tokens, which lets `ReflectiveInjector` honour every flag
+ * without this module depending on it. Returns the previous implementation.
+ * @internal
+ */
+export function setInjectImplementation(impl: InjectImplementation): InjectImplementation {
+  const previous = _injectImplementation;
+  _injectImplementation = impl;
+  return previous;
+}
+
+/**
+ * Makes `injector` the one used by {@link inject}, and returns the previous one.
+ */
+export function setCurrentInjector(injector: Injector | null): Injector | null {
+  const previous = _currentInjector;
+  _currentInjector = injector;
+  return previous;
+}
+
+/**
+ * Injects a token from the current injection context.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Injectable()
+ * class Car {
+ *   engine = inject(Engine);
+ *   radio = inject(Radio, InjectFlags.Optional);
+ * }
+ *
+ * var injector = ReflectiveInjector.resolveAndCreate([Car, Engine]);
+ * expect(injector.get(Car).engine instanceof Engine).toBe(true);
+ * ```
+ *
+ * @description
+ * The injection context is set while the injector runs a constructor or a factory function, and by
+ * {@link runInInjectionContext}. Calling `inject` anywhere else throws.
+ *
+ * The injectors created by {@link Injector#create} only honour the `Optional` flag.
+ *
+ * @experimental
+ */
+export function inject<T>(token: Type<T> | InjectionToken<T>, flags?: InjectFlags): T;
+export function inject(token: any, flags?: InjectFlags): any;
+export function inject(token: any, flags: InjectFlags = InjectFlags.Default): any {
+  const injector = _currentInjector;
+  if (injector === null) {
+    throw noInjectionContextError(token);
+  }
+  return _injectImplementation(injector, token, flags);
+}
+
+/**
+ * Runs `fn` in the injection context of `injector`, so that it can call {@link inject}.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * var injector = ReflectiveInjector.resolveAndCreate([Engine]);
+ * var engine = runInInjectionContext(injector, () => inject(Engine));
+ * ```
+ *
+ * @experimental
+ */
+export function runInInjectionContext<T>(injector: Injector, fn: () => T): T {
+  const previous = setCurrentInjector(injector);
+  try {
+    return fn();
+  } finally {
+    setCurrentInjector(previous);
+  }
+}
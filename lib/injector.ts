@@ -9,7 +9,19 @@
 import { stringify } from './facade/lang';
 import { Type } from './facade/type';
 
+import { setCurrentInjector } from './injection_context';
 import { InjectionToken } from './injection_token';
+import { Inject, Optional, Self, SkipSelf } from './metadata';
+import { MultiProviderOrder, getMultiProviderOrder, mapMultiProviderEntries, sortMultiProviderEntries } from './multi_provider_order';
+import { StaticProvider } from './provider';
+import {
+  duplicateMultiKeyError,
+  invalidStaticProviderError,
+  mixingKeyedMultiProvidersError,
+  mixingMultiProvidersWithRegularProvidersError,
+  staticCyclicDependencyError,
+  staticNoProviderError,
+} from './reflective_errors';
 
 const _THROW_IF_NOT_FOUND = new Object();
 export const THROW_IF_NOT_FOUND = _THROW_IF_NOT_FOUND;
@@ -48,6 +60,46 @@ export abstract class Injector {
   static THROW_IF_NOT_FOUND = _THROW_IF_NOT_FOUND;
   static NULL: Injector = new _NullInjector();
 
+  /**
+   * Creates an injector from {@link StaticProvider}s, which list all their dependencies
+   * explicitly.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * class Engine {}
+   * class Car {
+   *   constructor(public engine: Engine) {}
+   * }
+   *
+   * var injector = Injector.create({providers: [
+   *   {provide: Engine, deps: []},
+   *   {provide: Car, deps: [Engine]}
+   * ], name: 'garage'});
+   * expect(injector.get(Car).engine).toBe(injector.get(Engine));
+   * ```
+   *
+   * @description
+   * The injector never uses reflection, so neither `reflect-metadata` nor the `reflector` are
+   * needed. Any {@link Injector}, including a {@link ReflectiveInjector}, can be its `parent`,
+   * and it can be the parent of a `ReflectiveInjector` as well.
+   *
+   * @experimental
+   */
+  static create(providers: StaticProvider[], parent?: Injector): Injector;
+  static create(options: { providers: StaticProvider[]; parent?: Injector; name?: string }): Injector;
+  static create(
+    options: StaticProvider[] | { providers: StaticProvider[]; parent?: Injector; name?: string },
+    parent?: Injector
+  ): Injector {
+    if (Array.isArray(options)) {
+      // tslint:disable-next-line:no-use-before-declare
+      return new StaticInjector(options, parent);
+    }
+    // tslint:disable-next-line:no-use-before-declare
+    return new StaticInjector(options.providers, options.parent, options.name || null);
+  }
+
   /**
    * Retrieves an instance from the injector based on the provided token.
    * If not found:
@@ -62,3 +114,297 @@ export abstract class Injector {
    */
   abstract get(token: any, notFoundValue?: any): any;
 }
+
+const IDENT = function<T>(value: T): T {
+  return value;
+};
+const EMPTY = <any[]>[];
+const CIRCULAR = new Object();
+const NOT_YET = new Object();
+const NOT_FOUND = new Object();
+
+const enum OptionFlags {
+  Optional = 1 << 0,
+  CheckSelf = 1 << 1,
+  CheckParent = 1 << 2,
+  Default = CheckSelf | CheckParent,
+}
+
+interface DependencyRecord {
+  token: any;
+  options: number;
+}
+
+interface Record {
+  token: any;
+  /**
+   * The provider the record has been created from, which errors describe, or `null` for the
+   * records created by the injector.
+   */
+  provider: StaticProvider | null;
+  fn: Function;
+  useNew: boolean;
+  deps: DependencyRecord[];
+  value: any;
+  /**
+   * The records of the entries of a multi provider.
+   */
+  multi: Record[] | null;
+  /**
+   * Whether the entries of a multi provider are appended to the entries of the parent injector.
+   */
+  extend: boolean;
+  /**
+   * The position of an entry among the entries of a multi provider.
+   */
+  order: MultiProviderOrder | null;
+  /**
+   * The key of an entry of a keyed multi provider.
+   */
+  multiKey: string | null;
+}
+
+/**
+ * The {@link Injector} returned by {@link Injector#create}.
+ */
+export class StaticInjector implements Injector {
+  readonly parent: Injector;
+  readonly name: string | null;
+
+  private _records: Map<any, Record>;
+
+  constructor(providers: StaticProvider[], parent: Injector = Injector.NULL, name: string | null = null) {
+    this.parent = parent;
+    this.name = name;
+    this._records = new Map<any, Record>();
+    this._records.set(Injector, {
+      token: Injector,
+      provider: null,
+      fn: IDENT,
+      useNew: false,
+      deps: EMPTY,
+      value: this,
+      multi: null,
+      extend: false,
+      order: null,
+      multiKey: null,
+    });
+    _processProviders(this._records, providers);
+  }
+
+  get<T>(token: Type<T> | InjectionToken<T>, notFoundValue?: T): T;
+  get(token: any, notFoundValue?: any): any;
+  get(token: any, notFoundValue: any = _THROW_IF_NOT_FOUND): any {
+    return _resolveDependency(
+      this,
+      this._records,
+      token,
+      notFoundValue !== _THROW_IF_NOT_FOUND ? OptionFlags.Default | OptionFlags.Optional : OptionFlags.Default,
+      notFoundValue
+    );
+  }
+
+  toString(): string {
+    const tokens: string[] = [];
+    this._records.forEach((record, token) => tokens.push(stringify(token)));
+    return `StaticInjector[${tokens.join(', ')}]`;
+  }
+}
+
+function _processProviders(records: Map<any, Record>, providers: StaticProvider[]): void {
+  for (let i = 0; i < providers.length; i++) {
+    const provider = providers[i];
+    if (Array.isArray(provider)) {
+      _processProviders(records, provider);
+      continue;
+    }
+    const record = _resolveProvider(provider);
+    const existing = records.get(record.token);
+    if (provider.multi || record.multiKey !== null) {
+      if (existing && !existing.multi) {
+        throw mixingMultiProvidersWithRegularProvidersError(stringify(existing.token), stringify(record.token));
+      }
+      if (existing) {
+        _assertCompatibleEntry(existing.multi!, record);
+        existing.multi!.push(record);
+        existing.extend = existing.extend || !!provider.extend;
+      } else {
+        records.set(record.token, {
+          token: record.token,
+          provider: null,
+          fn: IDENT,
+          useNew: false,
+          deps: EMPTY,
+          value: NOT_YET,
+          multi: [record],
+          extend: !!provider.extend,
+          order: null,
+          multiKey: null,
+        });
+      }
+    } else {
+      if (existing && existing.multi) {
+        throw mixingMultiProvidersWithRegularProvidersError(stringify(existing.token), stringify(record.token));
+      }
+      records.set(record.token, record);
+    }
+  }
+}
+
+/**
+ * Throws when the entry `record` cannot be added to the `entries` of a multi provider.
+ */
+function _assertCompatibleEntry(entries: Record[], record: Record): void {
+  if ((entries[0].multiKey === null) !== (record.multiKey === null)) {
+    throw mixingKeyedMultiProvidersError(record.token);
+  }
+  for (let i = 0; i < entries.length; i++) {
+    if (record.multiKey !== null && entries[i].multiKey === record.multiKey) {
+      throw duplicateMultiKeyError(record.token, record.multiKey, entries[i].provider, record.provider);
+    }
+  }
+}
+
+function _resolveProvider(provider: any): Record {
+  if (!provider || typeof provider !== 'object' || provider.provide === undefined) {
+    throw invalidStaticProviderError(provider);
+  }
+  const record: Record = {
+    token: provider.provide,
+    provider,
+    fn: IDENT,
+    useNew: false,
+    deps: EMPTY,
+    value: NOT_YET,
+    multi: null,
+    extend: false,
+    order: getMultiProviderOrder(provider),
+    multiKey: provider.multiKey != null ? provider.multiKey : null,
+  };
+  if ('useValue' in provider) {
+    record.value = provider.useValue;
+  } else if (provider.useExisting !== undefined) {
+    record.deps = [{ token: provider.useExisting, options: OptionFlags.Default }];
+  } else if (provider.useFactory) {
+    record.fn = provider.useFactory;
+    record.deps = _computeDeps(provider.deps);
+  } else if (provider.useClass && provider.deps) {
+    record.fn = provider.useClass;
+    record.useNew = true;
+    record.deps = _computeDeps(provider.deps);
+  } else if (typeof provider.provide === 'function' && !provider.useClass) {
+    record.fn = provider.provide;
+    record.useNew = true;
+    record.deps = _computeDeps(provider.deps);
+  } else {
+    throw invalidStaticProviderError(provider);
+  }
+  return record;
+}
+
+function _computeDeps(deps: any[] | undefined): DependencyRecord[] {
+  if (!deps) {
+    return EMPTY;
+  }
+  return deps.map(dep => {
+    let token = dep;
+    let options = OptionFlags.Default;
+    if (Array.isArray(dep)) {
+      for (let i = 0; i < dep.length; i++) {
+        const meta = dep[i];
+        if (meta instanceof Optional || meta === Optional) {
+          options = options | OptionFlags.Optional;
+        } else if (meta instanceof SkipSelf || meta === SkipSelf) {
+          options = options & ~OptionFlags.CheckSelf;
+        } else if (meta instanceof Self || meta === Self) {
+          options = options & ~OptionFlags.CheckParent;
+        } else if (meta instanceof Inject) {
+          token = meta.token;
+        } else {
+          token = meta;
+        }
+      }
+    }
+    return { token, options };
+  });
+}
+
+function _resolveRecord(injector: StaticInjector, records: Map<any, Record>, record: Record): any {
+  let value = record.value;
+  if (value === CIRCULAR) {
+    throw staticCyclicDependencyError(record.token);
+  }
+  if (value === NOT_YET) {
+    record.value = CIRCULAR;
+    try {
+      if (record.multi && record.multi[0].multiKey !== null) {
+        const inherited = _getInheritedEntries(injector, record, null);
+        const own = record.multi.map(entry => _resolveRecord(injector, records, entry));
+        value = mapMultiProviderEntries(
+          record.token,
+          record.multi.map(entry => entry.multiKey!),
+          record.multi.map(entry => entry.order),
+          own,
+          inherited
+        );
+      } else if (record.multi) {
+        const inherited: any[] = _getInheritedEntries(injector, record, EMPTY);
+        if (inherited instanceof Map) {
+          throw mixingKeyedMultiProvidersError(record.token);
+        }
+        const entries = inherited.concat(record.multi.map(entry => _resolveRecord(injector, records, entry)));
+        // the orders of the inherited entries are unknown, as the parent can be any injector.
+        const orders = inherited.map((): MultiProviderOrder | null => null).concat(record.multi.map(entry => entry.order));
+        const sorted = sortMultiProviderEntries(record.token, orders);
+        value = sorted === null ? entries : sorted.map(i => entries[i]);
+      } else {
+        const deps = record.deps.map(dep => _resolveDependency(injector, records, dep.token, dep.options, _THROW_IF_NOT_FOUND));
+        const previousInjector = setCurrentInjector(injector);
+        try {
+          value = record.useNew ? new (record.fn as any)(...deps) : record.fn(...deps);
+        } finally {
+          setCurrentInjector(previousInjector);
+        }
+      }
+    } catch (e) {
+      record.value = NOT_YET;
+      if (e.addToken && !record.multi) {
+        e.addToken(record.token);
+      }
+      throw e;
+    }
+    record.value = value;
+  }
+  return value;
+}
+
+/**
+ * Returns the entries the parent provides for the multi provider `record` extends, or else
+ * `notFoundValue`.
+ */
+function _getInheritedEntries(injector: StaticInjector, record: Record, notFoundValue: any): any {
+  const inherited = record.extend ? injector.parent.get(record.token, notFoundValue) : notFoundValue;
+  if (inherited !== notFoundValue && !Array.isArray(inherited) && !(inherited instanceof Map)) {
+    throw mixingMultiProvidersWithRegularProvidersError(stringify(record.token), stringify(record.token));
+  }
+  return inherited;
+}
+
+function _resolveDependency(injector: StaticInjector, records: Map<any, Record>, token: any, options: number, notFoundValue: any): any {
+  if (options & OptionFlags.CheckSelf) {
+    const record = records.get(token);
+    if (record) {
+      return _resolveRecord(injector, records, record);
+    }
+  }
+  if (options & OptionFlags.CheckParent) {
+    const value = injector.parent.get(token, NOT_FOUND);
+    if (value !== NOT_FOUND) {
+      return value;
+    }
+  }
+  if (options & OptionFlags.Optional) {
+    return notFoundValue === _THROW_IF_NOT_FOUND ? null : notFoundValue;
+  }
+  throw staticNoProviderError(token, injector.name);
+}
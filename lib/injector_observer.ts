@@ -0,0 +1,217 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { global } from './facade/lang';
+import { ReflectiveInjector } from './reflective_injector';
+import { ReflectiveKey } from './reflective_key';
+
+/**
+ * An event notified to the {@link InjectorObserver}s.
+ *
+ * @experimental
+ */
+export interface ResolutionEvent {
+  key: ReflectiveKey;
+  /**
+   * The injector instantiating the provider of `key`, or the injector which did not find any.
+   */
+  injector: ReflectiveInjector;
+  /**
+   * The keys being resolved, from the one requested first to `key`.
+   */
+  path: ReflectiveKey[];
+  /**
+   * When the event occurred, in milliseconds, as given by `performance.now()` when available.
+   */
+  timestamp: number;
+}
+
+/**
+ * The event notified once a provider has been instantiated.
+ *
+ * @experimental
+ */
+export interface InstantiatedEvent extends ResolutionEvent {
+  instance: any;
+  /**
+   * The time spent instantiating the provider, including its dependencies, in milliseconds.
+   */
+  duration: number;
+}
+
+/**
+ * The event notified when the instantiation of a provider failed.
+ *
+ * @experimental
+ */
+export interface ResolutionErrorEvent extends ResolutionEvent {
+  error: any;
+  duration: number;
+}
+
+/**
+ * @whatItDoes Observes the resolutions of {@link ReflectiveInjector}s.
+ * @howToUse
+ * ```
+ * injector.addObserver({
+ *   onInstantiated: event => console.log(`${event.key.displayName}: ${event.duration}ms`),
+ *   onNotFound: event => console.warn(`No provider for ${event.key.displayName}`),
+ * });
+ * ```
+ *
+ * @description
+ * An observer added to an injector with {@link ReflectiveInjector#addObserver} is notified of the
+ * events of that injector and its descendants, while an observer added with
+ * {@link ReflectiveInjector.addGlobalObserver} is notified of the events of all injectors.
+ *
+ * - `onResolveStart` is called before a provider is instantiated, which only happens when it is
+ *   not cached yet.
+ * - `onInstantiated` is called once it has been, including asynchronous providers.
+ * - `onError` is called when its instantiation failed, including because of one of its
+ *   dependencies, in which case it is called for the dependency first.
+ * - `onNotFound` is called when no provider is found for a token, including optional ones.
+ *
+ * Resolutions are not observed at all as long as no observer is added.
+ *
+ * @experimental
+ */
+export interface InjectorObserver {
+  onResolveStart?(event: ResolutionEvent): void;
+  onInstantiated?(event: InstantiatedEvent): void;
+  onError?(event: ResolutionErrorEvent): void;
+  onNotFound?(event: ResolutionEvent): void;
+}
+
+const _globalObservers: InjectorObserver[] = [];
+
+/**
+ * The number of observers added to any injector or globally.
+ */
+let _observerCount = 0;
+
+/**
+ * Whether any observer has been added, without which resolutions do not need to be observed.
+ */
+export function hasObservers(): boolean {
+  return _observerCount > 0;
+}
+
+/**
+ * Adds `observer` to `observers`, or to the global observers, and returns the function removing it.
+ */
+export function addObserver(observer: InjectorObserver, observers: InjectorObserver[] = _globalObservers): () => void {
+  observers.push(observer);
+  _observerCount++;
+  return () => {
+    const index = observers.indexOf(observer);
+    if (index > -1) {
+      observers.splice(index, 1);
+      _observerCount--;
+    }
+  };
+}
+
+/**
+ * Removes all `observers`, like those of a destroyed injector.
+ */
+export function clearObservers(observers: InjectorObserver[]): void {
+  _observerCount -= observers.length;
+  observers.length = 0;
+}
+
+export function getGlobalObservers(): InjectorObserver[] {
+  return _globalObservers;
+}
+
+/**
+ * Notifies `observers` of the instantiation of the provider of `key` by `instantiate`.
+ */
+export function observeInstantiation<T>(
+  observers: InjectorObserver[],
+  key: ReflectiveKey,
+  injector: ReflectiveInjector,
+  path: ReflectiveKey[],
+  instantiate: () => T
+): T {
+  const instantiation = new ObservedInstantiation(observers, { key, injector, path, timestamp: now() });
+  let instance: T;
+  try {
+    instance = instantiate();
+  } catch (e) {
+    instantiation.fail(e);
+    throw e;
+  }
+  instantiation.succeed(instance);
+  return instance;
+}
+
+/**
+ * Notifies `observers` of the instantiation of the provider of `key` by the asynchronous
+ * `instantiate`.
+ */
+export async function observeInstantiationAsync<T>(
+  observers: InjectorObserver[],
+  key: ReflectiveKey,
+  injector: ReflectiveInjector,
+  path: ReflectiveKey[],
+  instantiate: () => Promise<T>
+): Promise<T> {
+  const instantiation = new ObservedInstantiation(observers, { key, injector, path, timestamp: now() });
+  let instance: T;
+  try {
+    instance = await instantiate();
+  } catch (e) {
+    instantiation.fail(e);
+    throw e;
+  }
+  instantiation.succeed(instance);
+  return instance;
+}
+
+class ObservedInstantiation {
+  constructor(private _observers: InjectorObserver[], private _start: ResolutionEvent) {
+    _observers.forEach(observer => observer.onResolveStart && observer.onResolveStart(_start));
+  }
+
+  succeed(instance: any): void {
+    const event = { ...this._end(), instance };
+    this._observers.forEach(observer => observer.onInstantiated && observer.onInstantiated(event));
+  }
+
+  fail(error: any): void {
+    const event = { ...this._end(), error };
+    this._observers.forEach(observer => observer.onError && observer.onError(event));
+  }
+
+  private _end(): ResolutionEvent & { duration: number } {
+    const timestamp = now();
+    return { ...this._start, timestamp, duration: timestamp - this._start.timestamp };
+  }
+}
+
+/**
+ * Notifies `observers` that no provider has been found for `key`.
+ */
+export function observeNotFound(
+  observers: InjectorObserver[],
+  key: ReflectiveKey,
+  injector: ReflectiveInjector,
+  path: ReflectiveKey[]
+): void {
+  const event = { key, injector, path, timestamp: now() };
+  observers.forEach(observer => observer.onNotFound && observer.onNotFound(event));
+}
+
+const _performance = (<any>global).performance;
+
+/**
+ * Returns the current time in milliseconds, with a sub-millisecond precision when available.
+ */
+export function now(): number {
+  return _performance && typeof _performance.now === 'function' ? _performance.now() : Date.now();
+}
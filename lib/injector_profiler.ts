@@ -0,0 +1,260 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { now } from './injector_observer';
+import { ReflectiveInjector } from './reflective_injector';
+import { ReflectiveKey } from './reflective_key';
+
+/**
+ * The time spent by an {@link InjectorProfiler} instantiating the providers of a key.
+ *
+ * @experimental
+ */
+export interface ProfileReportEntry {
+  key: ReflectiveKey;
+  /**
+   * The number of factory calls, which is the number of entries for a multi provider.
+   */
+  calls: number;
+  /**
+   * The time spent in the factories themselves, excluding the instantiation of their
+   * dependencies, in milliseconds.
+   */
+  selfTime: number;
+  /**
+   * The time spent in the factories, including the instantiation of their dependencies, in
+   * milliseconds.
+   */
+  inclusiveTime: number;
+}
+
+/**
+ * A complete event of the Chrome trace event format, see {@link InjectorProfiler#toTraceEvents}.
+ *
+ * @experimental
+ */
+export interface TraceEvent {
+  name: string;
+  cat: string;
+  ph: 'X';
+  /**
+   * The start of the event, in microseconds.
+   */
+  ts: number;
+  /**
+   * The duration of the event, in microseconds.
+   */
+  dur: number;
+  pid: number;
+  tid: number;
+  args: { [name: string]: any };
+}
+
+/**
+ * A factory call recorded by an {@link InjectorProfiler}.
+ */
+interface ProfileSample {
+  key: ReflectiveKey;
+  injector: ReflectiveInjector;
+  start: number;
+  inclusiveTime: number;
+  /**
+   * The inclusive time of the samples nested in this one.
+   */
+  nestedTime: number;
+  parent: ProfileSample | null;
+}
+
+let _activeProfiler: InjectorProfiler | null = null;
+
+/**
+ * Returns the profiler recording the factory calls, if any.
+ */
+export function getActiveProfiler(): InjectorProfiler | null {
+  return _activeProfiler;
+}
+
+/**
+ * @whatItDoes Records the time spent in the factories of the providers of all injectors.
+ * @howToUse
+ * ```
+ * const profiler = new InjectorProfiler().start();
+ * const injector = ReflectiveInjector.resolveAndCreate(APP_PROVIDERS);
+ * injector.get(App);
+ * profiler.stop();
+ *
+ * console.log(profiler.toString());
+ * fs.writeFileSync('startup.json', JSON.stringify(profiler.toTraceEvents()));
+ * ```
+ *
+ * @description
+ * While a profiler is started, every factory call, like the call of a constructor, is recorded
+ * with:
+ * - its inclusive time, from the resolution of its dependencies to the injection of its
+ *   properties,
+ * - its self time, which excludes the inclusive time of the factories called in between, mostly
+ *   the dependencies instantiated on the way.
+ *
+ * {@link InjectorProfiler#report} aggregates them per key, and
+ * {@link InjectorProfiler#toTraceEvents} returns them in the Chrome trace event format, which
+ * `chrome://tracing` or Perfetto show as the tree of the constructions on a timeline.
+ *
+ * The self time of an asynchronous factory also includes the time spent waiting for concurrent
+ * instantiations. Only one profiler records at a time, and nothing is recorded while none is
+ * started.
+ *
+ * @experimental
+ */
+export class InjectorProfiler {
+  private _samples: ProfileSample[] = [];
+  private _stack: ProfileSample[] = [];
+  /**
+   * Maps the steps of the asynchronous resolution paths to the sample of their factory call.
+   */
+  private _asyncSamples = new WeakMap<object, ProfileSample>();
+
+  /**
+   * Starts recording, stopping the profiler which was recording, if any.
+   */
+  start(): this {
+    _activeProfiler = this;
+    return this;
+  }
+
+  stop(): this {
+    if (_activeProfiler === this) {
+      _activeProfiler = null;
+    }
+    return this;
+  }
+
+  /**
+   * Discards the recorded factory calls.
+   */
+  clear(): void {
+    this._samples = [];
+  }
+
+  /**
+   * Returns the time spent per key, sorted by decreasing self time.
+   */
+  report(): ProfileReportEntry[] {
+    const entries = new Map<ReflectiveKey, ProfileReportEntry>();
+    this._samples.forEach(sample => {
+      let entry = entries.get(sample.key);
+      if (!entry) {
+        entry = { key: sample.key, calls: 0, selfTime: 0, inclusiveTime: 0 };
+        entries.set(sample.key, entry);
+      }
+      entry.calls++;
+      entry.selfTime += _selfTime(sample);
+      entry.inclusiveTime += sample.inclusiveTime;
+    });
+    return Array.from(entries.values()).sort((a, b) => b.selfTime - a.selfTime || b.inclusiveTime - a.inclusiveTime);
+  }
+
+  /**
+   * Returns the recorded factory calls in the Chrome trace event format, to be saved as JSON.
+   */
+  toTraceEvents(): { traceEvents: TraceEvent[]; displayTimeUnit: 'ms' } {
+    const origin = this._samples.reduce((min, sample) => Math.min(min, sample.start), Infinity);
+    const traceEvents = this._samples
+      .map(sample => {
+        const args: { [name: string]: any } = { selfTime: _selfTime(sample) };
+        if (sample.injector.name !== null) {
+          args['injector'] = sample.injector.name;
+        }
+        return <TraceEvent>{
+          name: sample.key.displayName,
+          cat: 'injection-js',
+          ph: 'X',
+          ts: Math.round((sample.start - origin) * 1000),
+          dur: Math.round(sample.inclusiveTime * 1000),
+          pid: 1,
+          tid: 1,
+          args,
+        };
+      })
+      .sort((a, b) => a.ts - b.ts);
+    return { traceEvents, displayTimeUnit: 'ms' };
+  }
+
+  /**
+   * Formats the report as a table.
+   */
+  toString(): string {
+    const lines = ['Self (ms)  Inclusive (ms)  Calls  Token'];
+    this.report().forEach(entry =>
+      lines.push(
+        [
+          _pad(entry.selfTime.toFixed(2), 9),
+          _pad(entry.inclusiveTime.toFixed(2), 14),
+          _pad(String(entry.calls), 5),
+          entry.key.displayName,
+        ].join('  ')
+      )
+    );
+    return lines.join('\n');
+  }
+
+  /**
+   * Records the factory call of `key` made by `call`, nested in the factory call being recorded.
+   * @internal
+   */
+  _profile<T>(injector: ReflectiveInjector, key: ReflectiveKey, call: () => T): T {
+    const sample = this._begin(injector, key, this._stack.length > 0 ? this._stack[this._stack.length - 1] : null);
+    this._stack.push(sample);
+    try {
+      return call();
+    } finally {
+      this._stack.pop();
+      this._end(sample);
+    }
+  }
+
+  /**
+   * Records the asynchronous factory call of `key` made by `call`, nested in the factory call of
+   * the `parent` step of its resolution path.
+   * @internal
+   */
+  async _profileAsync<T>(
+    injector: ReflectiveInjector,
+    key: ReflectiveKey,
+    step: object,
+    parent: object | null,
+    call: () => Promise<T>
+  ): Promise<T> {
+    const sample = this._begin(injector, key, parent !== null ? this._asyncSamples.get(parent) || null : null);
+    this._asyncSamples.set(step, sample);
+    try {
+      return await call();
+    } finally {
+      this._end(sample);
+    }
+  }
+
+  private _begin(injector: ReflectiveInjector, key: ReflectiveKey, parent: ProfileSample | null): ProfileSample {
+    return { key, injector, start: now(), inclusiveTime: 0, nestedTime: 0, parent };
+  }
+
+  private _end(sample: ProfileSample): void {
+    sample.inclusiveTime = now() - sample.start;
+    if (sample.parent !== null) {
+      sample.parent.nestedTime += sample.inclusiveTime;
+    }
+    this._samples.push(sample);
+  }
+}
+
+function _selfTime(sample: ProfileSample): number {
+  return Math.max(0, sample.inclusiveTime - sample.nestedTime);
+}
+
+function _pad(value: string, width: number): string {
+  return value.length < width ? ' '.repeat(width - value.length) + value : value;
+}
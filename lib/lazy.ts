@@ -0,0 +1,154 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { stringify } from './facade/lang';
+
+/**
+ * A handle to an instance which is only resolved when its `value` is first read.
+ *
+ * See {@link lazy}.
+ *
+ * @experimental
+ */
+export interface Lazy<T> {
+  /**
+   * The instance, resolved by the injector on first access and memoised afterwards.
+   */
+  readonly value: T;
+
+  /**
+   * Whether `value` has already been resolved.
+   */
+  readonly resolved: boolean;
+}
+
+/**
+ * A function which resolves a new instance (or the same singleton) on every call.
+ *
+ * See {@link getter}.
+ *
+ * @experimental
+ */
+export interface Getter<T> {
+  (): T;
+}
+
+/**
+ * A dependency token whose instance is not injected directly but through a {@link Lazy} or a
+ * {@link Getter}.
+ *
+ * @experimental
+ */
+export class DeferredToken {
+  constructor(public token: any, public kind: 'lazy' | 'getter' | 'lazyEntries') {}
+
+  toString(): string {
+    return `${this.kind}(${stringify(this.token)})`;
+  }
+}
+
+/**
+ * Injects a {@link Lazy} for `token` instead of the instance itself.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Injectable()
+ * class Reports {
+ *   constructor(@Inject(lazy(PdfRenderer)) private renderer: Lazy<PdfRenderer>) {}
+ *
+ *   print() {
+ *     return this.renderer.value.render();
+ *   }
+ * }
+ * ```
+ *
+ * @description
+ * The instance is resolved from the injector owning the provider the first time `value` is read,
+ * honouring `@Optional`, `@Self` and `@SkipSelf` on the parameter. As nothing is resolved on
+ * construction, `lazy` can also be used to break a cycle between two services.
+ *
+ * @experimental
+ */
+export function lazy(token: any): any {
+  return new DeferredToken(token, 'lazy');
+}
+
+/**
+ * Injects a {@link Getter} for `token` instead of the instance itself.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Injectable()
+ * class Pool {
+ *   constructor(@Inject(getter(Connection)) private connect: Getter<Connection>) {}
+ *
+ *   open() {
+ *     return this.connect();
+ *   }
+ * }
+ * ```
+ *
+ * @description
+ * Each call of the getter resolves `token` again, so a transient provider returns a new instance
+ * per call, while a singleton provider keeps returning the same instance.
+ *
+ * @experimental
+ */
+export function getter(token: any): any {
+  return new DeferredToken(token, 'getter');
+}
+
+/**
+ * Injects a `Map` of {@link Lazy} handles to the entries of the keyed multi provider `token`
+ * instead of the `Map` of their instances.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * @Injectable()
+ * class CommandBus {
+ *   constructor(@Inject(lazyEntries(HANDLERS)) private handlers: Map<string, Lazy<Handler>>) {}
+ *
+ *   dispatch(command: Command) {
+ *     return this.handlers.get(command.name)!.value.handle(command);
+ *   }
+ * }
+ * ```
+ *
+ * @description
+ * Each entry is instantiated on its own the first time its `value` is read, so only the handlers
+ * which are actually used get created. Entries which have already been instantiated are shared
+ * with the `Map` injected for `token` itself.
+ *
+ * @experimental
+ */
+export function lazyEntries(token: any): any {
+  return new DeferredToken(token, 'lazyEntries');
+}
+
+// tslint:disable-next-line:class-name
+export class Lazy_<T> implements Lazy<T> {
+  private _resolved = false;
+  private _value!: T;
+
+  constructor(private _get: Getter<T>) {}
+
+  get resolved(): boolean {
+    return this._resolved;
+  }
+
+  get value(): T {
+    if (!this._resolved) {
+      this._value = this._get();
+      this._resolved = true;
+    }
+    return this._value;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * @whatItDoes Lifecycle hook that is called when the injector owning a service is destroyed.
+ * @howToUse
+ * ```
+ * @Injectable()
+ * class Connection implements OnDestroy {
+ *   ngOnDestroy() {
+ *     this.socket.close();
+ *   }
+ * }
+ * ```
+ *
+ * @description
+ * `ngOnDestroy` callback is typically used for any custom cleanup that needs to occur when the
+ * instance is destroyed. An `onDestroy` method is recognized as well.
+ *
+ * See {@link ReflectiveInjector#destroy}.
+ *
+ * @stable
+ */
+export interface OnDestroy {
+  ngOnDestroy(): void;
+}
@@ -6,7 +6,15 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { makeDecorator, makeParamDecorator } from './util/decorators';
+import { Type } from './facade/type';
+import { ProviderScope } from './provider';
+import { makeDecorator, makeParamDecorator, makePropDecorator } from './util/decorators';
+import {
+  StandardClassDecoratorContext,
+  StandardMemberDecoratorContext,
+  addStandardAnnotation,
+  addStandardPropMetadata,
+} from './util/standard_decorators';
 
 /**
  * Type of the Inject decorator / constructor function.
@@ -38,6 +46,21 @@ export interface InjectDecorator {
    *
    * {@example core/di/ts/metadata_spec.ts region='InjectWithoutDecorator'}
    *
+   * Classes which cannot be decorated, like those written in plain JavaScript or compiled without
+   * `emitDecoratorMetadata`, can list the tokens of their parameters in a static `inject` property
+   * instead. A parameter with modifiers is given as an array of the modifiers and its token:
+   *
+   * ```
+   * class Car {
+   *   static inject = [Engine, [new Optional(), Radio], [new Inject("MyDriver")]];
+   *
+   *   constructor(public engine:Engine, public radio:Radio, public driver:Driver) {}
+   * }
+   * ```
+   *
+   * Subclasses without their own constructor inherit the `inject` property of their parent class,
+   * while those declaring one have to declare their own `inject` property too.
+   *
    * @stable
    */
   (token: any): any;
@@ -61,6 +84,52 @@ export interface Inject {
  */
 export const Inject: InjectDecorator = makeParamDecorator('Inject', [['token', undefined]]);
 
+/**
+ * Type of the InjectProperty decorator / constructor function.
+ *
+ * @experimental
+ */
+export interface InjectPropertyDecorator {
+  /**
+   * @whatItDoes A property decorator that specifies a dependency assigned after construction.
+   * @howToUse
+   * ```
+   * @Injectable()
+   * class Car {
+   *   @InjectProperty() engine: Engine;
+   *   @InjectProperty("MyRadio") @Optional() radio: Radio;
+   * }
+   * ```
+   *
+   * @description
+   * When no token is given, the type annotation of the property is used. The properties are
+   * populated right after the constructor returns, so they are not available in the constructor.
+   * `@Optional()`, `@Self()` and `@SkipSelf()` can be applied to injected properties as well, and
+   * the injected properties of base classes are inherited.
+   *
+   * @experimental
+   */
+  (token?: any): any;
+  new (token?: any): InjectProperty;
+}
+
+/**
+ * Type of the InjectProperty metadata.
+ *
+ * @experimental
+ */
+export interface InjectProperty {
+  token: any;
+}
+
+/**
+ * InjectProperty decorator and metadata.
+ *
+ * @experimental
+ * @Annotation
+ */
+export const InjectProperty: InjectPropertyDecorator = makePropDecorator('InjectProperty', [['token', undefined]]);
+
 /**
  * Type of the Optional decorator / constructor function.
  *
@@ -132,10 +201,35 @@ export interface InjectableDecorator {
    *
    * {@example core/di/ts/metadata_spec.ts region='InjectableThrows'}
    *
+   * The lifetime of the class's instances can be set with the `scope` option, which is used
+   * whenever the class is provided with a {@link TypeProvider} or {@link ClassProvider}:
+   *
+   * ```
+   * @Injectable({scope: 'transient'})
+   * class Request {}
+   * ```
+   *
+   * With `eager: true`, the class is instantiated as soon as an injector providing it is created,
+   * which suits services nothing injects, like schedulers or listeners:
+   *
+   * ```
+   * @Injectable({eager: true})
+   * class MetricsExporter {}
+   * ```
+   *
+   * With `providedIn: 'root'`, the class does not need to be listed in any provider array: the
+   * root injector creates it on first request, unless an injector provides it explicitly. The
+   * instance can be created by another class or a factory instead:
+   *
+   * ```
+   * @Injectable({providedIn: 'root', useFactory: (http: Http) => new RemoteLogger(http), deps: [Http]})
+   * abstract class Logger {}
+   * ```
+   *
    * @stable
    */
-  (): any;
-  new (): Injectable;
+  (options?: Injectable): any;
+  new (options?: Injectable): Injectable;
 }
 
 /**
@@ -143,7 +237,38 @@ export interface InjectableDecorator {
  *
  * @stable
  */
-export interface Injectable {}
+export interface Injectable {
+  /**
+   * The lifetime of the instances created for the class. See {@link ProviderScope}.
+   */
+  scope?: ProviderScope;
+
+  /**
+   * Creates the instance of the class as soon as an injector providing it is created, even if
+   * nothing injects it. Only applies to singletons.
+   */
+  eager?: boolean;
+
+  /**
+   * Registers the class in the root injector when it is first requested there.
+   */
+  providedIn?: 'root' | null;
+
+  /**
+   * The class instantiated for a class provided in the root injector, instead of the class itself.
+   */
+  useClass?: Type<any>;
+
+  /**
+   * The factory creating the instance of a class provided in the root injector.
+   */
+  useFactory?: Function;
+
+  /**
+   * The dependencies of `useFactory`, like {@link FactoryProvider#deps}.
+   */
+  deps?: any[];
+}
 
 /**
  * Injectable decorator and metadata.
@@ -151,7 +276,14 @@ export interface Injectable {}
  * @stable
  * @Annotation
  */
-export const Injectable: InjectableDecorator = <InjectableDecorator>makeDecorator('Injectable', []);
+export const Injectable: InjectableDecorator = <InjectableDecorator>makeDecorator('Injectable', {
+  scope: undefined,
+  eager: undefined,
+  providedIn: undefined,
+  useClass: undefined,
+  useFactory: undefined,
+  deps: undefined,
+});
 
 /**
  * Type of the Self decorator / constructor function.
@@ -259,6 +391,9 @@ export interface HostDecorator {
    * ```
    *
    * @description
+   * The lookup stops at the nearest injector created with the `host` option, which is searched as
+   * well. Without any host injector, the whole hierarchy is searched.
+   *
    * For more details, see the {@linkDocs guide/dependency-injection "Dependency Injection Guide"}.
    *
    * ### Example
@@ -285,3 +420,109 @@ export interface Host {}
  * @Annotation
  */
 export const Host: HostDecorator = makeParamDecorator('Host', []);
+
+/**
+ * Type of the StandardInjectable decorator.
+ *
+ * @experimental
+ */
+export interface StandardInjectableDecorator {
+  /**
+   * @whatItDoes The {@link Injectable} decorator for the standard decorators of TypeScript 5,
+   * compiled without `experimentalDecorators`.
+   * @howToUse
+   * ```
+   * @StandardInjectable({scope: 'transient'})
+   * class Car {
+   *   static inject = [Engine];
+   *
+   *   constructor(public engine:Engine) {}
+   * }
+   * ```
+   *
+   * @description
+   * Standard decorators cannot decorate parameters, so the dependencies of the constructor are
+   * listed in a static `inject` property, see {@link Inject}, or injected into properties with
+   * {@link StandardInject}. The metadata is stored in `context.metadata`, which requires
+   * `Symbol.metadata` to be defined by the runtime or by a polyfill, while `reflect-metadata` is not
+   * needed.
+   *
+   * Classes decorated with standard decorators and legacy ones can be provided by the same
+   * injectors, and inherit from each other.
+   *
+   * @experimental
+   */
+  (options?: Injectable): (cls: Type<any>, context: StandardClassDecoratorContext) => void;
+}
+
+/**
+ * StandardInjectable decorator.
+ *
+ * @experimental
+ */
+export const StandardInjectable: StandardInjectableDecorator = (options?: Injectable) => {
+  const annotation = new Injectable(options);
+  return (cls: Type<any>, context: StandardClassDecoratorContext) => addStandardAnnotation(context, annotation);
+};
+
+/**
+ * The modifiers of a dependency injected by {@link StandardInject}, like the decorators of the
+ * same names.
+ *
+ * @experimental
+ */
+export interface StandardInjectOptions {
+  optional?: boolean;
+  self?: boolean;
+  skipSelf?: boolean;
+  host?: boolean;
+}
+
+/**
+ * Type of the StandardInject decorator.
+ *
+ * @experimental
+ */
+export interface StandardInjectDecorator {
+  /**
+   * @whatItDoes The {@link InjectProperty} decorator for the standard decorators of TypeScript 5,
+   * applied to fields and accessors.
+   * @howToUse
+   * ```
+   * @StandardInjectable()
+   * class Car {
+   *   @StandardInject(Engine) engine!: Engine;
+   *   @StandardInject("MyRadio", {optional: true}) accessor radio: Radio | null = null;
+   * }
+   * ```
+   *
+   * @description
+   * The token is required, as standard decorators do not emit the types of the properties. The
+   * properties are populated right after the constructor returns, and the injected properties of
+   * base classes are inherited, including those of classes using legacy decorators. Static and
+   * private members cannot be injected.
+   *
+   * @experimental
+   */
+  (token: any, options?: StandardInjectOptions): (value: unknown, context: StandardMemberDecoratorContext) => void;
+}
+
+/**
+ * StandardInject decorator.
+ *
+ * @experimental
+ */
+export const StandardInject: StandardInjectDecorator = (token: any, options: StandardInjectOptions = {}) => {
+  const metadata: any[] = [new InjectProperty(token)];
+  if (options.optional) metadata.push(new Optional());
+  if (options.self) metadata.push(new Self());
+  if (options.skipSelf) metadata.push(new SkipSelf());
+  if (options.host) metadata.push(new Host());
+  return (value: unknown, context: StandardMemberDecoratorContext) => {
+    if ((context.kind !== 'field' && context.kind !== 'accessor') || context.static || context.private) {
+      const kind = `${context.static ? 'static ' : ''}${context.private ? 'private ' : ''}${context.kind}`;
+      throw new Error(`Cannot inject the ${kind} ${String(context.name)}, only public instance fields and accessors can be injected`);
+    }
+    addStandardPropMetadata(context, metadata);
+  };
+};
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { cyclicMultiProviderOrderError, duplicateMultiProviderIdError, mixingKeyedMultiProvidersError } from './reflective_errors';
+
+/**
+ * @whatItDoes Positions an entry of a multi provider relative to the other entries of the token.
+ * @howToUse
+ * ```
+ * const providers = [
+ *   {provide: MIDDLEWARE, useClass: Logging, multi: true, id: 'logging', before: 'auth'},
+ *   {provide: MIDDLEWARE, useClass: Auth, multi: true, id: 'auth'},
+ *   {provide: MIDDLEWARE, useClass: Compression, multi: true, priority: -1},
+ * ];
+ * ```
+ *
+ * @description
+ * Entries are sorted so that every `before` and `after` constraint holds. Constraints naming an
+ * `id` which is not provided are ignored. Among the entries not constrained by one another,
+ * higher priorities come first, then registration order. When a multi provider extends the
+ * entries of the ancestor injectors, constraints apply across all of them.
+ *
+ * @experimental
+ */
+export interface MultiProviderOrder {
+  /**
+   * Identifies this entry in the `before` and `after` constraints of the other entries.
+   */
+  id?: string;
+
+  /**
+   * The ids of the entries this entry comes before.
+   */
+  before?: string | string[];
+
+  /**
+   * The ids of the entries this entry comes after.
+   */
+  after?: string | string[];
+
+  /**
+   * Defaults to `0`.
+   */
+  priority?: number;
+}
+
+/**
+ * Returns the order declared by the entry `provider` of a multi provider, or `null` when it does
+ * not declare any.
+ */
+export function getMultiProviderOrder(provider: MultiProviderOrder): MultiProviderOrder | null {
+  if (provider.id == null && provider.before == null && provider.after == null && provider.priority == null) {
+    return null;
+  }
+  return { id: provider.id, before: provider.before, after: provider.after, priority: provider.priority };
+}
+
+/**
+ * Returns the indices of the entries of the multi provider `token`, sorted by their `orders`, or
+ * `null` when no entry declares any order.
+ */
+export function sortMultiProviderEntries(token: any, orders: (MultiProviderOrder | null)[]): number[] | null {
+  if (!orders.some(_isOrdered)) {
+    return null;
+  }
+
+  const indexById = new Map<string, number>();
+  orders.forEach((order, i) => {
+    if (order && order.id != null) {
+      if (indexById.has(order.id)) {
+        throw duplicateMultiProviderIdError(token, order.id);
+      }
+      indexById.set(order.id, i);
+    }
+  });
+
+  const predecessors: number[][] = orders.map(() => []);
+  const successors: number[][] = orders.map(() => []);
+  const addConstraint = (first: number | undefined, second: number | undefined) => {
+    if (first !== undefined && second !== undefined) {
+      successors[first].push(second);
+      predecessors[second].push(first);
+    }
+  };
+  orders.forEach((order, i) => {
+    if (order) {
+      _toArray(order.before).forEach(id => addConstraint(i, indexById.get(id)));
+      _toArray(order.after).forEach(id => addConstraint(indexById.get(id), i));
+    }
+  });
+
+  const remaining = predecessors.map(p => p.length);
+  const ready = remaining.map((count, i) => i).filter(i => remaining[i] === 0);
+  const sorted: number[] = [];
+  while (ready.length > 0) {
+    let next = 0;
+    for (let i = 1; i < ready.length; i++) {
+      const delta = _priority(orders[ready[i]]) - _priority(orders[ready[next]]);
+      if (delta > 0 || (delta === 0 && ready[i] < ready[next])) {
+        next = i;
+      }
+    }
+    const index = ready.splice(next, 1)[0];
+    sorted.push(index);
+    successors[index].forEach(successor => {
+      if (--remaining[successor] === 0) {
+        ready.push(successor);
+      }
+    });
+  }
+
+  if (sorted.length < orders.length) {
+    const cycle = _findCycle(predecessors, remaining);
+    throw cyclicMultiProviderOrderError(token, cycle.map(i => orders[i]!.id!));
+  }
+  return sorted;
+}
+
+/**
+ * Returns the `Map` a keyed multi provider `token` resolves to: the `inherited` entries of the
+ * ancestor injectors, if any, followed by its own `values` by their `keys`, sorted by their
+ * `orders`. An own entry replaces the inherited entry with the same key in place.
+ */
+export function mapMultiProviderEntries(
+  token: any,
+  keys: string[],
+  orders: (MultiProviderOrder | null)[],
+  values: any[],
+  inherited: any
+): Map<string, any> {
+  if (inherited != null && !(inherited instanceof Map)) {
+    throw mixingKeyedMultiProvidersError(token);
+  }
+  const entries = new Map<string, any>(inherited || []);
+  const sorted = sortMultiProviderEntries(token, orders);
+  (sorted || values.map((value, i) => i)).forEach(i => entries.set(keys[i], values[i]));
+  return entries;
+}
+
+function _isOrdered(order: MultiProviderOrder | null): boolean {
+  return order != null && (order.before != null || order.after != null || order.priority != null);
+}
+
+function _toArray(ids: string | string[] | undefined): string[] {
+  return ids == null ? [] : Array.isArray(ids) ? ids : [ids];
+}
+
+function _priority(order: MultiProviderOrder | null): number {
+  return (order && order.priority) || 0;
+}
+
+/**
+ * Returns a cycle among the entries left unsorted, in the order they would have to come in and
+ * starting with the first registered one. Each of them has an unsorted predecessor, so walking
+ * predecessors ends up in a cycle.
+ */
+function _findCycle(predecessors: number[][], remaining: number[]): number[] {
+  const walked: number[] = [];
+  let index = remaining.findIndex(count => count > 0);
+  while (walked.indexOf(index) === -1) {
+    walked.push(index);
+    index = predecessors[index].filter(p => remaining[p] > 0)[0];
+  }
+  const cycle = walked.slice(walked.indexOf(index)).reverse();
+  const start = cycle.indexOf(Math.min(...cycle));
+  const rotated = cycle.slice(start).concat(cycle.slice(0, start));
+  return rotated.concat([rotated[0]]);
+}
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * @module
+ * @description
+ * The internals used by the `injection-js/testing` entry point, which is bundled on its own and
+ * must share them with the main entry point. They are not part of the public API.
+ */
+
+export { global as ɵglobal } from './facade/lang';
+export { reflector as ɵreflector } from './reflection/reflection';
+export {
+  autoMockDisabledError as ɵautoMockDisabledError,
+  testInjectorInstantiatedError as ɵtestInjectorInstantiatedError,
+} from './reflective_errors';
+export { ReflectiveInjector_ as ɵReflectiveInjector_ } from './reflective_injector';
@@ -7,6 +7,23 @@
  */
 
 import { Type } from './facade/type';
+import { MultiProviderOrder } from './multi_provider_order';
+
+/**
+ * @whatItDoes Describes how long the {@link Injector} keeps an instance it created.
+ *
+ * @description
+ * - `'singleton'` instances are created once and cached by the injector which owns the provider.
+ * - `'transient'` instances are created anew every time they are injected or retrieved.
+ * - Any other value names a scope: instances are created once per scope injector, see
+ *   {@link ReflectiveInjector#createScope}. All entries of a scoped multi provider belong to
+ *   the scope.
+ *
+ * Transient instances are not held by the injector, so they are not destroyed along with it.
+ *
+ * @experimental
+ */
+export type ProviderScope = 'singleton' | 'transient' | (string & {});
 
 /**
  * @whatItDoes Configures the {@link Injector} to return an instance of `Type` when `Type' is used
@@ -50,7 +67,7 @@ export interface TypeProvider extends Type<any> {}
  *
  * @stable
  */
-export interface ValueProvider {
+export interface ValueProvider extends MultiProviderOrder {
   /**
    * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
    */
@@ -70,6 +87,18 @@ export interface ValueProvider {
    * {@example core/di/ts/provider_spec.ts region='MultiProviderAspect'}
    */
   multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
 }
 
 /**
@@ -94,7 +123,7 @@ export interface ValueProvider {
  *
  * @stable
  */
-export interface ClassProvider {
+export interface ClassProvider extends MultiProviderOrder {
   /**
    * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
    */
@@ -114,6 +143,31 @@ export interface ClassProvider {
    * {@example core/di/ts/provider_spec.ts region='MultiProviderAspect'}
    */
   multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
+
+  /**
+   * The lifetime of the instances created for this `token`. Defaults to `'singleton'`, or to the
+   * `scope` of the class's {@link Injectable} annotation.
+   */
+  scope?: ProviderScope;
+
+  /**
+   * If true, the instance is created as soon as the injector is, even if nothing injects it.
+   * Defaults to the `eager` option of the class's {@link Injectable} annotation. Only applies to
+   * singletons.
+   */
+  eager?: boolean;
 }
 
 /**
@@ -132,7 +186,7 @@ export interface ClassProvider {
  *
  * @stable
  */
-export interface ExistingProvider {
+export interface ExistingProvider extends MultiProviderOrder {
   /**
    * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
    */
@@ -152,6 +206,24 @@ export interface ExistingProvider {
    * {@example core/di/ts/provider_spec.ts region='MultiProviderAspect'}
    */
   multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
+
+  /**
+   * If true, the aliased instance is created as soon as the injector is, even if nothing injects
+   * it.
+   */
+  eager?: boolean;
 }
 
 /**
@@ -176,7 +248,7 @@ export interface ExistingProvider {
  *
  * @stable
  */
-export interface FactoryProvider {
+export interface FactoryProvider extends MultiProviderOrder {
   /**
    * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
    */
@@ -203,17 +275,210 @@ export interface FactoryProvider {
    * {@example core/di/ts/provider_spec.ts region='MultiProviderAspect'}
    */
   multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
+
+  /**
+   * The lifetime of the instances created for this `token`. Defaults to `'singleton'`.
+   */
+  scope?: ProviderScope;
+
+  /**
+   * If true, the instance is created as soon as the injector is, even if nothing injects it. Only
+   * applies to singletons.
+   */
+  eager?: boolean;
+}
+
+/**
+ * @whatItDoes Configures the {@link ReflectiveInjector} to return the resolved value of the `Promise`
+ * returned by a `useAsyncFactory` function.
+ * @howToUse
+ * ```
+ * async function connectionFactory(config: Config) { ... }
+ *
+ * const provider: AsyncFactoryProvider = {provide: Connection, useAsyncFactory: connectionFactory, deps: [Config]};
+ * ```
+ *
+ * @description
+ * Async providers can only be instantiated through {@link ReflectiveInjector#getAsync}, which
+ * awaits the factory before injecting its value into dependents. Once settled, the value is
+ * cached and can also be retrieved with `get()`. As such, they cannot be `eager`.
+ *
+ * @experimental
+ */
+export interface AsyncFactoryProvider extends MultiProviderOrder {
+  /**
+   * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
+   */
+  provide: any;
+
+  /**
+   * A function returning a `Promise` of the value for this `token`. The function is invoked with
+   * resolved values of `token`s in the `deps` field.
+   */
+  useAsyncFactory: (...args: any[]) => Promise<any>;
+
+  /**
+   * A list of `token`s which need to be resolved by the injector. The list of values is then
+   * used as arguments to the `useAsyncFactory` function.
+   */
+  deps?: any[];
+
+  /**
+   * If true, then injector returns an array of instances. This is useful to allow multiple
+   * providers spread across many files to provide configuration information to a common token.
+   */
+  multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
+
+  /**
+   * The lifetime of the instances created for this `token`. Defaults to `'singleton'`.
+   */
+  scope?: ProviderScope;
+}
+
+/**
+ * @whatItDoes Configures the {@link Injector} returned by {@link Injector#create} to return an
+ * instance of `useClass` for a token.
+ * @howToUse
+ * ```
+ * class MyService { constructor(http: Http) {} }
+ *
+ * const provider: StaticClassProvider = {provide: 'someToken', useClass: MyService, deps: [Http]};
+ * ```
+ *
+ * @description
+ * Unlike {@link ClassProvider}, the dependencies of `useClass` are listed explicitly, so that no
+ * reflection is needed to instantiate it.
+ *
+ * @experimental
+ */
+export interface StaticClassProvider extends MultiProviderOrder {
+  /**
+   * An injection token. (Typically an instance of `Type` or `InjectionToken`, but can be `any`).
+   */
+  provide: any;
+
+  /**
+   * Class to instantiate for the `token`.
+   */
+  useClass: Type<any>;
+
+  /**
+   * A list of `token`s which need to be resolved by the injector. The list of values is then
+   * used as arguments to the `useClass` constructor.
+   */
+  deps: any[];
+
+  /**
+   * If true, then injector returns an array of instances. This is useful to allow multiple
+   * providers spread across many files to provide configuration information to a common token.
+   */
+  multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
+}
+
+/**
+ * @whatItDoes Configures the {@link Injector} returned by {@link Injector#create} to return an
+ * instance of a class for the class itself.
+ * @howToUse
+ * ```
+ * class MyService { constructor(http: Http) {} }
+ *
+ * const provider: ConstructorProvider = {provide: MyService, deps: [Http]};
+ * ```
+ *
+ * @experimental
+ */
+export interface ConstructorProvider extends MultiProviderOrder {
+  /**
+   * The class to instantiate, which is also the injection token.
+   */
+  provide: Type<any>;
+
+  /**
+   * A list of `token`s which need to be resolved by the injector. The list of values is then
+   * used as arguments to the constructor.
+   */
+  deps?: any[];
+
+  /**
+   * If true, then injector returns an array of instances. This is useful to allow multiple
+   * providers spread across many files to provide configuration information to a common token.
+   */
+  multi?: boolean;
+
+  /**
+   * If true, the entries of this multi provider are appended to the entries the ancestor
+   * injectors provide for the same `token`, instead of replacing them.
+   */
+  extend?: boolean;
+
+  /**
+   * Makes this provider an entry of a keyed multi provider: the injector returns a `Map` of the
+   * instances of all entries by their `multiKey`, which has to be unique.
+   */
+  multiKey?: string;
 }
 
+/**
+ * @whatItDoes Describes how the {@link Injector} returned by {@link Injector#create} should be
+ * configured.
+ * @howToUse
+ * See {@link ValueProvider}, {@link ExistingProvider}, {@link StaticClassProvider},
+ * {@link ConstructorProvider}, {@link FactoryProvider}.
+ *
+ * @description
+ * Every dependency is listed explicitly in `deps`, as `token` or as an array of `token` and
+ * {@link Optional}, {@link Self}, {@link SkipSelf} or {@link Inject} metadata, for instance
+ * `[new Optional(), Logger]`. Scopes are not supported: every instance is a singleton.
+ *
+ * @experimental
+ */
+export type StaticProvider = ValueProvider | ExistingProvider | StaticClassProvider | ConstructorProvider | FactoryProvider | any[];
+
 /**
  * @whatItDoes Describes how the {@link Injector} should be configured.
  * @howToUse
  * See {@link TypeProvider}, {@link ValueProvider}, {@link ClassProvider}, {@link ExistingProvider},
- * {@link FactoryProvider}.
+ * {@link FactoryProvider}, {@link AsyncFactoryProvider}.
  *
  * @description
  * For more details, see the {@linkDocs guide/dependency-injection "Dependency Injection Guide"}.
  *
  * @stable
  */
-export type Provider = TypeProvider | ValueProvider | ClassProvider | ExistingProvider | FactoryProvider | any[];
+export type Provider = TypeProvider | ValueProvider | ClassProvider | ExistingProvider | FactoryProvider | AsyncFactoryProvider | any[];
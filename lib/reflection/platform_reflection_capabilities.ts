@@ -12,10 +12,12 @@ import { GetterFn, MethodFn, SetterFn } from './types';
 export interface PlatformReflectionCapabilities {
   isReflectionEnabled(): boolean;
   factory(type: Type<any>): Function;
-  hasLifecycleHook(type: any, lcProperty: string): boolean;
+  hasLifecycleHook(type: any, lcProperty: string | symbol): boolean;
   parameters(type: Type<any>): any[][];
   annotations(type: Type<any>): any[];
   propMetadata(typeOrFunc: Type<any>): { [key: string]: any[] };
+  propertyType(type: Type<any>, propName: string): any;
+  methodNames(type: Type<any>): string[];
   getter(name: string): GetterFn;
   setter(name: string): SetterFn;
   method(name: string): MethodFn;
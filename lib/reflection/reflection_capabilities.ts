@@ -8,6 +8,7 @@
 
 import { global, isPresent, stringify } from '../facade/lang';
 import { Type, isType } from '../facade/type';
+import { ANNOTATIONS_METADATA, PROP_METADATA, getOwnStandardMetadata } from '../util/standard_decorators';
 
 import { PlatformReflectionCapabilities } from './platform_reflection_capabilities';
 import { GetterFn, MethodFn, SetterFn } from './types';
@@ -16,6 +17,22 @@ import { GetterFn, MethodFn, SetterFn } from './types';
  * Attention: This regex has to hold even if the code is minified!
  */
 export const DELEGATE_CTOR = /^function\s+\S+\(\)\s*{[\s\S]+\.apply\(this,\s*arguments\)/;
+export const INHERITED_CLASS = /^class\s+[A-Za-z\d$_]*\s*extends\s+[^{]+{/;
+export const INHERITED_CLASS_WITH_CTOR = /^class\s+[A-Za-z\d$_]*\s*extends\s+[^{]+{[\s\S]*constructor\s*\(/;
+export const INHERITED_CLASS_WITH_DELEGATE_CTOR = /^class\s+[A-Za-z\d$_]*\s*extends\s+[^{]+{[\s\S]*constructor\s*\(\)\s*{\s*super\(\.\.\.arguments\)/;
+
+/**
+ * Whether the constructor of a subclass only calls the constructor of its parent class, in which
+ * case it has the parameters of its parent class. ES2015 classes without a constructor get such a
+ * constructor implicitly.
+ */
+export function isDelegateCtor(typeStr: string): boolean {
+  return (
+    DELEGATE_CTOR.test(typeStr) ||
+    INHERITED_CLASS_WITH_DELEGATE_CTOR.test(typeStr) ||
+    (INHERITED_CLASS.test(typeStr) && !INHERITED_CLASS_WITH_CTOR.test(typeStr))
+  );
+}
 
 export class ReflectionCapabilities implements PlatformReflectionCapabilities {
   private _reflect: any;
@@ -69,7 +86,7 @@ export class ReflectionCapabilities implements PlatformReflectionCapabilities {
     // This also helps to work around for https://github.com/Microsoft/TypeScript/issues/12439
     // that sets 'design:paramtypes' to []
     // if a class inherits from another class but has no ctor declared itself.
-    if (DELEGATE_CTOR.exec(type.toString())) {
+    if (isDelegateCtor(type.toString())) {
       return null;
     }
 
@@ -78,6 +95,12 @@ export class ReflectionCapabilities implements PlatformReflectionCapabilities {
       return (<any>type).parameters;
     }
 
+    // Static `inject` property of classes declaring their dependencies without decorators.
+    const inject = (<any>type).inject;
+    if (Array.isArray(inject) && inject !== parentCtor.inject) {
+      return inject.map(param => (Array.isArray(param) ? param : [param]));
+    }
+
     // API of tsickle for lowering decorators to properties on the class.
     const tsickleCtorParams = (<any>type).ctorParameters;
     if (tsickleCtorParams && tsickleCtorParams !== parentCtor.ctorParameters) {
@@ -148,7 +171,10 @@ export class ReflectionCapabilities implements PlatformReflectionCapabilities {
       return [];
     }
     const parentCtor = getParentCtor(typeOrFunc);
-    const ownAnnotations = this._ownAnnotations(typeOrFunc, parentCtor) || [];
+    // Standard decorators store their metadata apart from the legacy ones, with which they coexist.
+    const ownAnnotations = (this._ownAnnotations(typeOrFunc, parentCtor) || []).concat(
+      getOwnStandardMetadata(typeOrFunc, ANNOTATIONS_METADATA) || []
+    );
     const parentAnnotations = parentCtor !== Object ? this.annotations(parentCtor) : [];
     return parentAnnotations.concat(ownAnnotations);
   }
@@ -192,21 +218,48 @@ export class ReflectionCapabilities implements PlatformReflectionCapabilities {
         propMetadata[propName] = parentPropMetadata[propName];
       });
     }
-    const ownPropMetadata = this._ownPropMetadata(typeOrFunc, parentCtor);
-    if (ownPropMetadata) {
-      Object.keys(ownPropMetadata).forEach(propName => {
-        const decorators: any[] = [];
-        if (propMetadata.hasOwnProperty(propName)) {
-          decorators.push(...propMetadata[propName]);
-        }
-        decorators.push(...ownPropMetadata[propName]);
-        propMetadata[propName] = decorators;
-      });
-    }
+    [this._ownPropMetadata(typeOrFunc, parentCtor), getOwnStandardMetadata(typeOrFunc, PROP_METADATA)].forEach(ownPropMetadata => {
+      if (ownPropMetadata) {
+        Object.keys(ownPropMetadata).forEach(propName => {
+          const decorators: any[] = [];
+          if (propMetadata.hasOwnProperty(propName)) {
+            decorators.push(...propMetadata[propName]);
+          }
+          decorators.push(...ownPropMetadata[propName]);
+          propMetadata[propName] = decorators;
+        });
+      }
+    });
     return propMetadata;
   }
 
-  hasLifecycleHook(type: any, lcProperty: string): boolean {
+  propertyType(type: Type<any>, propName: string): any {
+    if (!isType(type) || !this._reflect || !this._reflect.getMetadata) {
+      return null;
+    }
+    const propType = this._reflect.getMetadata('design:type', type.prototype, propName);
+    // TS outputs Object for properties without types, see `_zipTypesAndAnnotations`.
+    // tslint:disable-next-line:triple-equals
+    return propType == Object ? null : propType || null;
+  }
+
+  methodNames(type: Type<any>): string[] {
+    if (!isType(type)) {
+      return [];
+    }
+    const parentCtor = getParentCtor(type);
+    const names = parentCtor !== Object ? this.methodNames(parentCtor) : [];
+    Object.getOwnPropertyNames(type.prototype).forEach(name => {
+      const descriptor = Object.getOwnPropertyDescriptor(type.prototype, name)!;
+      // accessors are skipped, as reading `descriptor.value` does not invoke them.
+      if (name !== 'constructor' && typeof descriptor.value === 'function' && names.indexOf(name) === -1) {
+        names.push(name);
+      }
+    });
+    return names;
+  }
+
+  hasLifecycleHook(type: any, lcProperty: string | symbol): boolean {
     return type instanceof Type && lcProperty in type.prototype;
   }
 
@@ -43,7 +43,15 @@ export class Reflector extends ReflectorReader {
     return this.reflectionCapabilities.propMetadata(typeOrFunc);
   }
 
-  hasLifecycleHook(type: any, lcProperty: string): boolean {
+  propertyType(type: Type<any>, propName: string): any {
+    return this.reflectionCapabilities.propertyType(type, propName);
+  }
+
+  methodNames(type: Type<any>): string[] {
+    return this.reflectionCapabilities.methodNames(type);
+  }
+
+  hasLifecycleHook(type: any, lcProperty: string | symbol): boolean {
     return this.reflectionCapabilities.hasLifecycleHook(type, lcProperty);
   }
 
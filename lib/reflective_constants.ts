@@ -0,0 +1,21 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Injector } from './injector';
+import { SkipSelf } from './metadata';
+import { ReflectiveKey } from './reflective_key';
+
+/**
+ * The key of `Injector`, which every injector resolves to itself.
+ */
+export const INJECTOR_KEY = ReflectiveKey.get(Injector);
+
+/**
+ * The visibility of the lookups starting from the parent injector.
+ */
+export const SKIP_SELF = new SkipSelf();
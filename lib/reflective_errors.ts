@@ -36,6 +36,10 @@ function constructResolvingPath(keys: any[]): string {
   return '';
 }
 
+function _injectorName(injector: ReflectiveInjector): string {
+  return injector.name !== null ? injector.name : injector.toString();
+}
+
 export interface InjectionError extends Error {
   keys: ReflectiveKey[];
   injectors: ReflectiveInjector[];
@@ -86,9 +90,49 @@ export function noProviderError(injector: ReflectiveInjector, key: ReflectiveKey
   });
 }
 
+/**
+ * Thrown when a dependency decorated with {@link Host} is not provided by any injector up to the
+ * nearest host injector.
+ *
+ * ```typescript
+ * class Car {
+ *   constructor(@Host() engine:Engine) {}
+ * }
+ *
+ * var parent = ReflectiveInjector.resolveAndCreate([Engine]);
+ * var host = parent.resolveAndCreateChild([], {host: true, name: 'Garage'});
+ * var child = host.resolveAndCreateChild([Car]);
+ *
+ * expect(() => child.get(Car)).toThrowError();
+ * ```
+ */
+export function noProviderInHostError(injector: ReflectiveInjector, key: ReflectiveKey, host: ReflectiveInjector): InjectionError {
+  return injectionError(injector, key, function(this: InjectionError) {
+    const first = stringify(this.keys[0].token);
+    return `No provider for ${first} within host ${stringify(host)}!${constructResolvingPath(this.keys)}`;
+  });
+}
+
+/**
+ * A provider resolved in an injector, as part of a resolution path.
+ */
+export interface ResolutionStep {
+  key: ReflectiveKey;
+  injector: ReflectiveInjector;
+}
+
+export interface CyclicDependencyError extends InjectionError {
+  cycle: ResolutionStep[];
+}
+
 /**
  * Thrown when dependencies form a cycle.
  *
+ * The error is raised as soon as a provider is requested again while it is being instantiated.
+ * Its `cycle` lists every step of the cycle, starting and ending with that provider, along with
+ * the injector it was instantiated in. When the steps span several injectors, the message names
+ * the injector of every step, by its name or its display name.
+ *
  * ### Example ([live demo](http://plnkr.co/edit/wYQdNos0Tzql3ei1EV9j?p=info))
  *
  * ```typescript
@@ -102,9 +146,61 @@ export function noProviderError(injector: ReflectiveInjector, key: ReflectiveKey
  *
  * Retrieving `A` or `B` throws a `CyclicDependencyError` as the graph above cannot be constructed.
  */
-export function cyclicDependencyError(injector: ReflectiveInjector, key: ReflectiveKey): InjectionError {
+export function cyclicDependencyError(
+  injector: ReflectiveInjector,
+  key: ReflectiveKey,
+  cycle: ResolutionStep[] = [{ key, injector }]
+): CyclicDependencyError {
+  const error = injectionError(injector, key, function(this: InjectionError) {
+    const spansInjectors = cycle.some(step => step.injector !== cycle[0].injector);
+    const tokenStrs = cycle.map(step => stringify(step.key.token) + (spansInjectors ? ` in ${_injectorName(step.injector)}` : ''));
+    return `Cannot instantiate cyclic dependency! (${tokenStrs.join(' -> ')})`;
+  }) as CyclicDependencyError;
+  error.cycle = cycle;
+  return error;
+}
+
+/**
+ * Thrown when an async provider is requested synchronously before its value has been resolved
+ * with {@link ReflectiveInjector#getAsync}, or when any provider is requested synchronously while
+ * {@link ReflectiveInjector#getAsync} is instantiating it.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * var injector = Injector.resolveAndCreate([
+ *   {provide: "config", useAsyncFactory: () => fetchConfig()}
+ * ]);
+ *
+ * expect(() => injector.get("config")).toThrowError();
+ * ```
+ */
+export function asyncProviderError(injector: ReflectiveInjector, key: ReflectiveKey): InjectionError {
   return injectionError(injector, key, function(this: InjectionError) {
-    return `Cannot instantiate cyclic dependency!${constructResolvingPath(this.keys)}`;
+    const first = stringify(this.keys[0].token);
+    return `Cannot synchronously instantiate async provider ${first}, use getAsync() instead!${constructResolvingPath(this.keys)}`;
+  });
+}
+
+/**
+ * Thrown when a provider bound to a named scope is retrieved from an injector which is not
+ * enclosed in that scope.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * var injector = Injector.resolveAndCreate([
+ *   {provide: "user", useFactory: () => currentUser(), scope: "request"}
+ * ]);
+ *
+ * expect(() => injector.get("user")).toThrowError();
+ * expect(injector.createScope("request").get("user")).toBeDefined();
+ * ```
+ */
+export function outOfScopeError(injector: ReflectiveInjector, key: ReflectiveKey, scope: string): InjectionError {
+  return injectionError(injector, key, function(this: InjectionError) {
+    const first = stringify(this.keys[0].token);
+    return `Cannot instantiate ${first} outside of scope '${scope}'!${constructResolvingPath(this.keys)}`;
   });
 }
 
@@ -192,6 +288,9 @@ export function invalidProviderError(provider: any) {
  *
  * expect(() => Injector.resolveAndCreate([A,B])).toThrowError();
  * ```
+ *
+ * Such classes can list the tokens of their parameters in a static `inject` property instead, see
+ * {@link Inject}.
  * @stable
  */
 export function noAnnotationError(typeOrFunc: Type<any> | Function, params: any[][]): Error {
@@ -216,6 +315,43 @@ export function noAnnotationError(typeOrFunc: Type<any> | Function, params: any[
   );
 }
 
+/**
+ * Thrown when the token of an injected property cannot be determined.
+ *
+ * ```typescript
+ * interface Engine {}
+ *
+ * @Injectable()
+ * class Car {
+ *   @InjectProperty() engine: Engine; // interfaces have no runtime representation.
+ * }
+ *
+ * expect(() => Injector.resolveAndCreate([Car])).toThrowError();
+ * ```
+ * @experimental
+ */
+export function noPropertyAnnotationError(type: Type<any>, propName: string): Error {
+  return Error(
+    `Cannot resolve the token of property '${propName}' of '${stringify(type)}'. ` +
+      `Make sure that the property has a valid type annotation or is decorated with InjectProperty(token).`
+  );
+}
+
+/**
+ * Thrown when {@link inject} is called outside of an injection context.
+ *
+ * ```typescript
+ * expect(() => inject(Engine)).toThrowError();
+ * ```
+ * @experimental
+ */
+export function noInjectionContextError(token: any): Error {
+  return Error(
+    `Cannot inject ${stringify(token)} outside of an injection context! ` +
+      `inject() must be called from a constructor, a factory function or runInInjectionContext().`
+  );
+}
+
 /**
  * Thrown when getting an object by index.
  *
@@ -234,6 +370,131 @@ export function outOfBoundsError(index: number) {
   return Error(`Index ${index} is out-of-bounds.`);
 }
 
+/**
+ * Thrown when retrieving an instance from an injector which has already been destroyed.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * var injector = Injector.resolveAndCreate([]);
+ * injector.destroy();
+ *
+ * expect(() => injector.get(Injector)).toThrowError();
+ * ```
+ */
+export function injectorDestroyedError() {
+  return Error('Injector has already been destroyed.');
+}
+
+/**
+ * Thrown by {@link ReflectiveInjector#validate} when a dependency decorated with {@link Self} is
+ * not provided by the injector itself, but by one of its ancestors.
+ *
+ * ```typescript
+ * class Car {
+ *   constructor(@Self() engine:Engine) {}
+ * }
+ *
+ * var parent = ReflectiveInjector.resolveAndCreate([Engine]);
+ * var child = parent.resolveAndCreateChild([Car]);
+ *
+ * expect(() => child.validate()).toThrowError();
+ * ```
+ */
+export function selfViolationError(injector: ReflectiveInjector, key: ReflectiveKey): InjectionError {
+  return injectionError(injector, key, function(this: InjectionError) {
+    const first = stringify(this.keys[0].token);
+    return `No provider for ${first} in the injector itself, it is only provided by an ancestor!${constructResolvingPath(this.keys)}`;
+  });
+}
+
+/**
+ * Thrown by {@link ReflectiveInjector#validate} when a multi provider extends the entries of the
+ * ancestor injectors, but they provide the token with incompatible providers. Also thrown when
+ * such a multi provider is instantiated and the ancestors provide the token with a regular
+ * provider.
+ *
+ * ```typescript
+ * var parent = ReflectiveInjector.resolveAndCreate([{provide: 'plugins', useValue: 'a'}]);
+ * var child = parent.resolveAndCreateChild([{provide: 'plugins', useValue: 'b', multi: true, extend: true}]);
+ *
+ * expect(() => child.validate()).toThrowError();
+ * ```
+ */
+export function multiProviderMismatchError(injector: ReflectiveInjector, key: ReflectiveKey, ancestorKind: string): InjectionError {
+  return injectionError(injector, key, function(this: InjectionError) {
+    const first = stringify(this.keys[0].token);
+    return `Cannot extend the entries of ${first}, the ancestors provide it with ${ancestorKind} providers!${constructResolvingPath(this.keys)}`;
+  });
+}
+
+export interface ValidationError extends Error {
+  errors: Error[];
+}
+
+/**
+ * Thrown by {@link ReflectiveInjector#validate} with every problem found in the providers of an
+ * injector, which are listed as `errors`.
+ *
+ * ```typescript
+ * class Car {
+ *   constructor(engine:Engine, radio:Radio) {}
+ * }
+ *
+ * try {
+ *   ReflectiveInjector.resolveAndCreate([Car]).validate();
+ * } catch (e) {
+ *   expect(e.errors.length).toEqual(2);
+ * }
+ * ```
+ */
+export function validationError(injector: ReflectiveInjector, errors: Error[]): ValidationError {
+  const messages = errors.map(e => `\n  - ${e.message}`).join('');
+  const error = Error(`Found ${errors.length} problem(s) in the providers of ${stringify(injector)}:${messages}`) as ValidationError;
+  error.errors = errors;
+  return error;
+}
+
+export interface DestroyError extends Error {
+  keys: ReflectiveKey[];
+  errors: any[];
+}
+
+/**
+ * Thrown by {@link ReflectiveInjector#destroy} once all instances have been destroyed, when
+ * at least one of their destroy hooks failed.
+ *
+ * The `errors` thrown by the hooks are listed with the `keys` of the providers they belong to.
+ *
+ * ### Example
+ *
+ * ```typescript
+ * class A {
+ *   ngOnDestroy() {
+ *     throw new Error('message');
+ *   }
+ * }
+ *
+ * var injector = Injector.resolveAndCreate([A]);
+ * injector.get(A);
+ *
+ * try {
+ *   injector.destroy();
+ * } catch (e) {
+ *   expect(e.keys[0].token).toBe(A);
+ *   expect(e.errors[0].message).toEqual("message");
+ * }
+ * ```
+ */
+export function destroyError(keys: ReflectiveKey[], errors: any[]): DestroyError {
+  const reasons = keys.map((key, i) => `${key.displayName} (${errors[i] instanceof Error ? errors[i].message : errors[i]})`);
+  const error = Error(`Error during destroy of ${reasons.join(', ')}!`) as DestroyError;
+  error.keys = keys;
+  error.errors = errors;
+  (error as any)[ERROR_ORIGINAL_ERROR] = errors[0];
+  return error;
+}
+
 // TODO: add a working example after alpha38 is released
 /**
  * Thrown when a multi provider and a regular provider are bound to the same token.
@@ -250,3 +511,208 @@ export function outOfBoundsError(index: number) {
 export function mixingMultiProvidersWithRegularProvidersError(provider1: any, provider2: any): Error {
   return Error(`Cannot mix multi providers and regular providers, got: ${provider1} ${provider2}`);
 }
+
+/**
+ * Thrown when keyed and unkeyed multi providers are bound to the same token.
+ *
+ * ```typescript
+ * expect(() => Injector.resolveAndCreate([
+ *   {provide: 'handlers', useValue: 'a', multiKey: 'create'},
+ *   {provide: 'handlers', useValue: 'b', multi: true}
+ * ])).toThrowError();
+ * ```
+ */
+export function mixingKeyedMultiProvidersError(token: any): Error {
+  return Error(`Cannot mix keyed and unkeyed multi providers of ${stringify(token)}!`);
+}
+
+/**
+ * Thrown when two entries of a keyed multi provider declare the same `multiKey`.
+ *
+ * ```typescript
+ * expect(() => Injector.resolveAndCreate([
+ *   {provide: 'handlers', useClass: CreateHandler, multiKey: 'create'},
+ *   {provide: 'handlers', useClass: InsertHandler, multiKey: 'create'}
+ * ])).toThrowError();
+ * ```
+ */
+export function duplicateMultiKeyError(token: any, multiKey: string, provider1: any, provider2: any): Error {
+  return Error(
+    `Cannot provide the key '${multiKey}' of ${stringify(token)} twice, got: ${_describeProvider(provider1)} and ${_describeProvider(
+      provider2
+    )}!`
+  );
+}
+
+/**
+ * Thrown when the entries of a token are requested with {@link lazyEntries}, but the token is not
+ * provided by keyed multi providers.
+ */
+export function notKeyedMultiProviderError(key: ReflectiveKey): Error {
+  return Error(`Cannot inject the lazy entries of ${stringify(key.token)}, it is not provided by keyed multi providers!`);
+}
+
+/**
+ * Thrown when an async provider is declared `eager`, as the injector is created synchronously.
+ *
+ * ```typescript
+ * expect(() => Injector.resolveAndCreate([
+ *   {provide: 'config', useAsyncFactory: () => fetchConfig(), eager: true}
+ * ])).toThrowError();
+ * ```
+ */
+export function eagerAsyncProviderError(token: any): Error {
+  return Error(`Cannot instantiate the async provider ${stringify(token)} eagerly, retrieve it with getAsync() instead!`);
+}
+
+function _describeProvider(provider: any): string {
+  const props = Object.keys(provider).map(name => {
+    const value = provider[name];
+    return `${name}: ${_describeValue(value)}`;
+  });
+  return `{${props.join(', ')}}`;
+}
+
+function _describeValue(value: any): string {
+  if (typeof value === 'string') {
+    return `'${value}'`;
+  }
+  return Array.isArray(value) ? `[${value.map(_describeValue).join(', ')}]` : stringify(value);
+}
+
+/**
+ * Thrown when two entries of a multi provider declare the same `id`.
+ *
+ * ```typescript
+ * var injector = Injector.resolveAndCreate([
+ *   {provide: 'middleware', useValue: 'a', multi: true, id: 'auth'},
+ *   {provide: 'middleware', useValue: 'b', multi: true, id: 'auth', priority: 1}
+ * ]);
+ *
+ * expect(() => injector.get('middleware')).toThrowError();
+ * ```
+ */
+export function duplicateMultiProviderIdError(token: any, id: string): Error {
+  return Error(`Cannot order the multi providers of ${stringify(token)}, the id '${id}' is declared twice!`);
+}
+
+/**
+ * Thrown when the `before` and `after` constraints of the entries of a multi provider contradict
+ * each other.
+ *
+ * ```typescript
+ * var injector = Injector.resolveAndCreate([
+ *   {provide: 'middleware', useValue: 'a', multi: true, id: 'auth', before: 'logging'},
+ *   {provide: 'middleware', useValue: 'b', multi: true, id: 'logging', before: 'auth'}
+ * ]);
+ *
+ * expect(() => injector.get('middleware')).toThrowError();
+ * ```
+ */
+export function cyclicMultiProviderOrderError(token: any, ids: string[]): Error {
+  return Error(`Cannot order the multi providers of ${stringify(token)}, their constraints are cyclic! (${ids.join(' -> ')})`);
+}
+
+/**
+ * Thrown when a provider of a `TestInjector` is overridden after its injector has been created.
+ *
+ * ```typescript
+ * var testInjector = new TestInjector([Engine]);
+ * testInjector.get(Engine);
+ *
+ * expect(() => testInjector.overrideValue(Engine, new MockEngine())).toThrowError();
+ * ```
+ */
+export function testInjectorInstantiatedError(token: any): Error {
+  return Error(`Cannot override ${stringify(token)}, the test injector has already been created! Call reset() first.`);
+}
+
+/**
+ * Thrown when the mock of a token is requested from a `TestInjector` which does not create mocks.
+ *
+ * ```typescript
+ * var testInjector = new TestInjector([]);
+ *
+ * expect(() => testInjector.getMock(Engine)).toThrowError();
+ * ```
+ */
+export function autoMockDisabledError(token: any): Error {
+  return Error(`Cannot get the mock of ${stringify(token)}, the test injector has been created without the autoMock option!`);
+}
+
+/**
+ * An error raised while resolving a token of an {@link Injector} created with
+ * {@link Injector#create}.
+ */
+export interface StaticInjectionError extends Error {
+  tokens: any[];
+  constructResolvingMessage: (this: StaticInjectionError) => string;
+  addToken(token: any): void;
+}
+
+function staticInjectionError(token: any, constructResolvingMessage: (this: StaticInjectionError) => string): StaticInjectionError {
+  const error = Error() as StaticInjectionError;
+  error.addToken = addToken;
+  error.tokens = [token];
+  error.constructResolvingMessage = constructResolvingMessage;
+  error.message = error.constructResolvingMessage();
+  return error;
+}
+
+function addToken(this: StaticInjectionError, token: any): void {
+  this.tokens.push(token);
+  this.message = this.constructResolvingMessage();
+}
+
+/**
+ * Thrown when an {@link Injector} created with {@link Injector#create} does not have a provider
+ * for a token.
+ *
+ * ```typescript
+ * var injector = Injector.create({providers: [], name: 'app'});
+ *
+ * expect(() => injector.get('token')).toThrowError("No provider for token in app!");
+ * ```
+ */
+export function staticNoProviderError(token: any, injectorName: string | null): StaticInjectionError {
+  return staticInjectionError(token, function(this: StaticInjectionError) {
+    const first = stringify(this.tokens[0]);
+    const source = injectorName !== null ? ` in ${injectorName}` : '';
+    return `No provider for ${first}${source}!${constructResolvingPath(this.tokens.map(t => ({ token: t })))}`;
+  });
+}
+
+/**
+ * Thrown when dependencies form a cycle in an {@link Injector} created with
+ * {@link Injector#create}.
+ *
+ * ```typescript
+ * var injector = Injector.create({providers: [
+ *   {provide: 'one', useFactory: (two) => two, deps: ['two']},
+ *   {provide: 'two', useFactory: (one) => one, deps: ['one']}
+ * ]});
+ *
+ * expect(() => injector.get('one')).toThrowError();
+ * ```
+ */
+export function staticCyclicDependencyError(token: any): StaticInjectionError {
+  return staticInjectionError(token, function(this: StaticInjectionError) {
+    return `Cannot instantiate cyclic dependency!${constructResolvingPath(this.tokens.map(t => ({ token: t })))}`;
+  });
+}
+
+/**
+ * Thrown when a provider given to {@link Injector#create} is not a {@link StaticProvider}.
+ *
+ * ```typescript
+ * class A {}
+ *
+ * expect(() => Injector.create({providers: [A]})).toThrowError();
+ * ```
+ */
+export function invalidStaticProviderError(provider: any): Error {
+  return Error(
+    `Invalid static provider - only providers with useValue, useExisting, useFactory or useClass and deps are allowed, ` +
+      `got: ${stringify(provider && provider.provide !== undefined ? provider.provide : provider)}`
+  );
+}
@@ -0,0 +1,356 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Injector } from './injector';
+import { Host, Self, SkipSelf } from './metadata';
+import { INJECTOR_KEY, SKIP_SELF } from './reflective_constants';
+import { ReflectiveInjector_ } from './reflective_injector';
+import { ReflectiveKey } from './reflective_key';
+import { ReflectiveDependency, ResolvedReflectiveFactory, ResolvedReflectiveProvider, resolveProvidedInRoot } from './reflective_provider';
+
+/**
+ * An injector of a {@link DependencyGraph}.
+ *
+ * @experimental
+ */
+export interface DependencyGraphInjector {
+  id: string;
+  name: string | null;
+  /**
+   * The id of the parent injector, or `null` for the root injector.
+   */
+  parent: string | null;
+}
+
+/**
+ * A node of a {@link DependencyGraph}, which is either:
+ * - `'provider'`: the providers of a token in an injector,
+ * - `'entry'`: one of the providers of a multi token, see {@link DependencyGraphEdge#kind},
+ * - `'unresolved'`: a token which no reflective injector of the hierarchy provides. It is either
+ *   provided by a parent which is not a `ReflectiveInjector`, or not provided at all.
+ *
+ * @experimental
+ */
+export interface DependencyGraphNode {
+  id: string;
+  kind: 'provider' | 'entry' | 'unresolved';
+  token: string;
+  /**
+   * The id of the injector owning the providers, or `null` for unresolved tokens.
+   */
+  injector: string | null;
+  multi: boolean;
+  /**
+   * Whether the instance has already been created. Transient providers are never instantiated.
+   */
+  instantiated: boolean;
+}
+
+/**
+ * An edge of a {@link DependencyGraph}, which is either:
+ * - `'dependency'`: `from` injects `to` as a constructor parameter, a factory argument or the
+ *   `property` of the instance,
+ * - `'entry'`: the multi token `from` fans out to its entry `to`, or to the entries it inherits
+ *   from an ancestor when it extends them.
+ *
+ * @experimental
+ */
+export interface DependencyGraphEdge {
+  from: string;
+  to: string;
+  kind: 'dependency' | 'entry';
+  optional: boolean;
+  self: boolean;
+  skipSelf: boolean;
+  host: boolean;
+  deferred: 'lazy' | 'getter' | 'lazyEntries' | null;
+  property: string | null;
+}
+
+/**
+ * @whatItDoes The providers of an injector hierarchy and their dependencies.
+ * @howToUse
+ * ```
+ * const graph = injector.dependencyGraph();
+ *
+ * fs.writeFileSync('injector.json', JSON.stringify(graph));
+ * fs.writeFileSync('injector.dot', graph.toDot());
+ * fs.writeFileSync('injector.mmd', graph.toMermaid());
+ * ```
+ *
+ * @description
+ * See {@link ReflectiveInjector#dependencyGraph}.
+ *
+ * @experimental
+ */
+export class DependencyGraph {
+  constructor(public injectors: DependencyGraphInjector[], public nodes: DependencyGraphNode[], public edges: DependencyGraphEdge[]) {}
+
+  /**
+   * Returns the plain object serialised by `JSON.stringify`.
+   */
+  toJSON(): { injectors: DependencyGraphInjector[]; nodes: DependencyGraphNode[]; edges: DependencyGraphEdge[] } {
+    return { injectors: this.injectors, nodes: this.nodes, edges: this.edges };
+  }
+
+  /**
+   * Serialises the graph to the Graphviz DOT language. Injectors are nested clusters, instantiated
+   * nodes are filled, unresolved nodes and optional dependencies are dashed and entries are bold.
+   */
+  toDot(): string {
+    const lines = ['digraph {'];
+    const writeNodes = (injector: string | null, indent: string) =>
+      this._nodesOf(injector).forEach(node => {
+        const attrs = [`label=${_dotString(node.token)}`];
+        if (node.kind === 'unresolved') {
+          attrs.push('style=dashed');
+        } else if (node.instantiated) {
+          attrs.push('style=filled');
+        }
+        lines.push(`${indent}${node.id} [${attrs.join(', ')}];`);
+      });
+    const writeInjector = (injector: DependencyGraphInjector, indent: string) => {
+      lines.push(`${indent}subgraph cluster_${injector.id} {`);
+      lines.push(`${indent}  label=${_dotString(injector.name || injector.id)};`);
+      writeNodes(injector.id, indent + '  ');
+      this._childrenOf(injector.id).forEach(child => writeInjector(child, indent + '  '));
+      lines.push(`${indent}}`);
+    };
+    this._childrenOf(null).forEach(injector => writeInjector(injector, '  '));
+    writeNodes(null, '  ');
+    this.edges.forEach(edge => {
+      const attrs: string[] = [];
+      const label = _edgeLabel(edge);
+      if (label) {
+        attrs.push(`label=${_dotString(label)}`);
+      }
+      if (edge.kind === 'entry') {
+        attrs.push('style=bold');
+      } else if (edge.optional) {
+        attrs.push('style=dashed');
+      }
+      lines.push(`  ${edge.from} -> ${edge.to}${attrs.length > 0 ? ` [${attrs.join(', ')}]` : ''};`);
+    });
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Serialises the graph to a Mermaid flowchart. Injectors are nested subgraphs, instantiated and
+   * unresolved nodes have the classes `instantiated` and `unresolved`, optional dependencies are
+   * dotted and entries are thick.
+   */
+  toMermaid(): string {
+    const lines = ['flowchart TD'];
+    const writeNodes = (injector: string | null, indent: string) =>
+      this._nodesOf(injector).forEach(node => {
+        const cls = node.kind === 'unresolved' ? ':::unresolved' : node.instantiated ? ':::instantiated' : '';
+        lines.push(`${indent}${node.id}[${_mermaidString(node.token)}]${cls}`);
+      });
+    const writeInjector = (injector: DependencyGraphInjector, indent: string) => {
+      lines.push(`${indent}subgraph ${injector.id} [${_mermaidString(injector.name || injector.id)}]`);
+      writeNodes(injector.id, indent + '  ');
+      this._childrenOf(injector.id).forEach(child => writeInjector(child, indent + '  '));
+      lines.push(`${indent}end`);
+    };
+    this._childrenOf(null).forEach(injector => writeInjector(injector, '  '));
+    writeNodes(null, '  ');
+    this.edges.forEach(edge => {
+      const arrow = edge.kind === 'entry' ? '==>' : edge.optional ? '-.->' : '-->';
+      const label = _edgeLabel(edge);
+      lines.push(`  ${edge.from} ${arrow}${label ? `|${_mermaidString(label)}|` : ''} ${edge.to}`);
+    });
+    lines.push('  classDef instantiated fill:#cfc');
+    lines.push('  classDef unresolved stroke-dasharray:4');
+    return lines.join('\n');
+  }
+
+  private _nodesOf(injector: string | null): DependencyGraphNode[] {
+    return this.nodes.filter(node => node.injector === injector);
+  }
+
+  private _childrenOf(injector: string | null): DependencyGraphInjector[] {
+    return this.injectors.filter(child => child.parent === injector);
+  }
+}
+
+/**
+ * Builds the graph of `injector`, its ancestors and its descendants.
+ *
+ * All providers of `injector` and its descendants are part of the graph, while only the providers
+ * of the ancestors they depend on are. Dependencies are resolved like the injectors resolve them,
+ * without instantiating anything.
+ */
+export function buildDependencyGraph(injector: ReflectiveInjector_): DependencyGraph {
+  return new DependencyGraphBuilder(injector).build();
+}
+
+class DependencyGraphBuilder {
+  private _injectors: DependencyGraphInjector[] = [];
+  private _nodes: DependencyGraphNode[] = [];
+  private _edges: DependencyGraphEdge[] = [];
+  private _injectorIds = new Map<ReflectiveInjector_, string>();
+  /**
+   * Maps `<injector id>:<key id>` to the id of its node.
+   */
+  private _nodeIds = new Map<string, string>();
+  /**
+   * The providers instantiated by every injector, as a provider may be shared between injectors.
+   */
+  private _instantiated = new Map<ReflectiveInjector_, Set<ResolvedReflectiveProvider>>();
+
+  constructor(private _injector: ReflectiveInjector_) {}
+
+  build(): DependencyGraph {
+    const ancestors: ReflectiveInjector_[] = [];
+    for (let inj = this._injector._reflectiveParent; inj !== null; inj = inj._reflectiveParent) {
+      ancestors.unshift(inj);
+    }
+    const subtree: ReflectiveInjector_[] = [];
+    const collect = (inj: ReflectiveInjector_) => {
+      subtree.push(inj);
+      inj._children.toArray().forEach(collect);
+    };
+    collect(this._injector);
+
+    ancestors.concat(subtree).forEach(inj => {
+      const parent = inj._reflectiveParent !== null ? this._injectorIds.get(inj._reflectiveParent)! : null;
+      const id = `i${this._injectorIds.size}`;
+      this._injectorIds.set(inj, id);
+      this._injectors.push({ id, name: inj._name, parent });
+      this._instantiated.set(inj, new Set(inj._instantiated.map(record => record.provider)));
+    });
+    subtree.forEach(inj => inj._providers.forEach(provider => this._node(inj, provider)));
+    return new DependencyGraph(this._injectors, this._nodes, this._edges);
+  }
+
+  private _node(injector: ReflectiveInjector_, provider: ResolvedReflectiveProvider): string {
+    const injectorId = this._injectorIds.get(injector)!;
+    const nodeKey = `${injectorId}:${provider.key.id}`;
+    let id = this._nodeIds.get(nodeKey);
+    if (id !== undefined) {
+      return id;
+    }
+    const instantiated = this._instantiated.get(injector)!.has(provider);
+    id = this._addNode('provider', provider.key.displayName, injectorId, provider.multiProvider, instantiated);
+    this._nodeIds.set(nodeKey, id);
+
+    if (!provider.multiProvider) {
+      this._addDependencies(injector, id, provider.resolvedFactories[0]);
+      return id;
+    }
+    provider.resolvedFactories.forEach((factory, i) => {
+      const token = `${provider.key.displayName}[${factory.multiKey !== null ? factory.multiKey : i}]`;
+      const entry = this._addNode('entry', token, injectorId, false, instantiated);
+      this._addEdge(id!, entry, 'entry', null, null);
+      this._addDependencies(injector, entry, factory);
+    });
+    if (provider.extendsParent) {
+      const inherited = _lookup(injector, new ReflectiveDependency(provider.key, true, SKIP_SELF));
+      if (inherited !== null) {
+        this._addEdge(id, this._node(inherited.injector, inherited.provider), 'entry', null, null);
+      }
+    }
+    return id;
+  }
+
+  private _addDependencies(injector: ReflectiveInjector_, from: string, factory: ResolvedReflectiveFactory): void {
+    factory.dependencies.forEach(dep => this._addDependency(injector, from, dep, null));
+    factory.properties.forEach(prop => this._addDependency(injector, from, prop.dependency, prop.name));
+  }
+
+  private _addDependency(requester: ReflectiveInjector_, from: string, dep: ReflectiveDependency, property: string | null): void {
+    // Every injector provides itself, which is not worth a node.
+    if (dep.key === INJECTOR_KEY) {
+      return;
+    }
+    const resolution = _lookup(requester, dep);
+    const to = resolution !== null ? this._node(resolution.injector, resolution.provider) : this._unresolvedNode(dep.key);
+    this._addEdge(from, to, 'dependency', dep, property);
+  }
+
+  private _unresolvedNode(key: ReflectiveKey): string {
+    const nodeKey = `:${key.id}`;
+    let id = this._nodeIds.get(nodeKey);
+    if (id === undefined) {
+      id = this._addNode('unresolved', key.displayName, null, false, false);
+      this._nodeIds.set(nodeKey, id);
+    }
+    return id;
+  }
+
+  private _addNode(
+    kind: DependencyGraphNode['kind'],
+    token: string,
+    injector: string | null,
+    multi: boolean,
+    instantiated: boolean
+  ): string {
+    const id = `n${this._nodes.length}`;
+    this._nodes.push({ id, kind, token, injector, multi, instantiated });
+    return id;
+  }
+
+  private _addEdge(
+    from: string,
+    to: string,
+    kind: DependencyGraphEdge['kind'],
+    dep: ReflectiveDependency | null,
+    property: string | null
+  ): void {
+    this._edges.push({
+      from,
+      to,
+      kind,
+      optional: dep !== null && dep.optional,
+      self: dep !== null && dep.visibility instanceof Self,
+      skipSelf: dep !== null && dep.visibility instanceof SkipSelf,
+      host: dep !== null && dep.visibility instanceof Host,
+      deferred: dep !== null ? dep.deferred : null,
+      property,
+    });
+  }
+}
+
+/**
+ * Finds the injector providing `dep` to `requester` and its providers, or returns `null` when no
+ * reflective injector provides it as requested.
+ */
+function _lookup(
+  requester: ReflectiveInjector_,
+  dep: ReflectiveDependency
+): { injector: ReflectiveInjector_; provider: ResolvedReflectiveProvider } | null {
+  const found = requester._lookup(dep.key, dep.visibility);
+  if (found.kind === 'provided') {
+    return { injector: found.injector, provider: found.injector._providers[found.index] };
+  }
+  if (found.kind !== 'pastRoot' || found.injector === null || (found.parent !== null && found.parent !== Injector.NULL)) {
+    return null;
+  }
+  const provider = resolveProvidedInRoot(dep.key.token);
+  return provider !== null ? { injector: found.injector, provider } : null;
+}
+
+function _edgeLabel(edge: DependencyGraphEdge): string {
+  const flags: string[] = [];
+  if (edge.property !== null) flags.push(`.${edge.property}`);
+  if (edge.optional) flags.push('optional');
+  if (edge.self) flags.push('self');
+  if (edge.skipSelf) flags.push('skipSelf');
+  if (edge.host) flags.push('host');
+  if (edge.deferred !== null) flags.push(edge.deferred);
+  return flags.join(', ');
+}
+
+function _dotString(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function _mermaidString(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
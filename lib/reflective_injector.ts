@@ -6,21 +6,93 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
+import { getWellKnownSymbol, global } from './facade/lang';
+import { InjectFlags, InjectImplementation, runInInjectionContext, setCurrentInjector, setInjectImplementation } from './injection_context';
 import { Injector, THROW_IF_NOT_FOUND } from './injector';
-import { Self, SkipSelf } from './metadata';
+import {
+  InjectorObserver,
+  addObserver,
+  clearObservers,
+  getGlobalObservers,
+  hasObservers,
+  observeInstantiation,
+  observeInstantiationAsync,
+  observeNotFound,
+} from './injector_observer';
+import { getActiveProfiler } from './injector_profiler';
+import { Getter, Lazy, Lazy_ } from './lazy';
+import { MultiProviderOrder, mapMultiProviderEntries, sortMultiProviderEntries } from './multi_provider_order';
+import { Host, Self, SkipSelf } from './metadata';
 import { Provider } from './provider';
-import { cyclicDependencyError, instantiationError, noProviderError, outOfBoundsError } from './reflective_errors';
+import { reflector } from './reflection/reflection';
+import {
+  asyncProviderError,
+  cyclicDependencyError,
+  destroyError,
+  injectorDestroyedError,
+  instantiationError,
+  mixingKeyedMultiProvidersError,
+  multiProviderMismatchError,
+  noProviderError,
+  noProviderInHostError,
+  notKeyedMultiProviderError,
+  outOfBoundsError,
+  outOfScopeError,
+  ResolutionStep,
+  validationError,
+} from './reflective_errors';
+import { INJECTOR_KEY, SKIP_SELF } from './reflective_constants';
+import { DependencyGraph, buildDependencyGraph } from './reflective_graph';
 import { ReflectiveKey } from './reflective_key';
 import {
   ReflectiveDependency,
   ResolvedReflectiveFactory,
   ResolvedReflectiveProvider,
+  isKeyedMultiProvider,
+  namedScope,
+  resolveProvidedInRoot,
   resolveReflectiveProviders,
 } from './reflective_provider';
+import { validateInjector } from './reflective_validation';
+
+declare global {
+  /**
+   * The symbols of explicit resource management, for the TypeScript libraries which do not declare
+   * them yet. They are defined by recent runtimes, or else by a polyfill.
+   */
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+    readonly asyncDispose: unique symbol;
+  }
+}
 
 // Threshold for the dynamic version
 const UNDEFINED = new Object();
 
+/**
+ * Options for creating a {@link ReflectiveInjector}.
+ *
+ * @experimental
+ */
+export interface ReflectiveInjectorOptions {
+  /**
+   * Marks the injector as a host boundary: dependencies decorated with {@link Host} are looked up
+   * in the injectors up to and including the nearest host injector.
+   */
+  host?: boolean;
+
+  /**
+   * A name identifying the injector in error messages.
+   */
+  name?: string;
+
+  /**
+   * Validates the providers of the injector once it has been created, see
+   * {@link ReflectiveInjector#validate}.
+   */
+  validate?: boolean;
+}
+
 /**
  * A ReflectiveDependency injection container used for instantiating objects and resolving
  * dependencies.
@@ -116,13 +188,15 @@ export abstract class ReflectiveInjector implements Injector {
    * expect(injector.get(Car) instanceof Car).toBe(true);
    * ```
    *
+   * Providers marked as `eager` are instantiated right away, see {@link ClassProvider#eager}.
+   *
    * This function is slower than the corresponding `fromResolvedProviders`
    * because it needs to resolve the passed-in providers first.
    * See {@link Injector#resolve} and {@link Injector#fromResolvedProviders}.
    */
-  static resolveAndCreate(providers: Provider[], parent?: Injector): ReflectiveInjector {
+  static resolveAndCreate(providers: Provider[], parent?: Injector, options?: ReflectiveInjectorOptions): ReflectiveInjector {
     const ResolvedReflectiveProviders = ReflectiveInjector.resolve(providers);
-    return ReflectiveInjector.fromResolvedProviders(ResolvedReflectiveProviders, parent);
+    return ReflectiveInjector.fromResolvedProviders(ResolvedReflectiveProviders, parent, options);
   }
 
   /**
@@ -148,9 +222,23 @@ export abstract class ReflectiveInjector implements Injector {
    * ```
    * @experimental
    */
-  static fromResolvedProviders(providers: ResolvedReflectiveProvider[], parent?: Injector): ReflectiveInjector {
+  static fromResolvedProviders(
+    providers: ResolvedReflectiveProvider[],
+    parent?: Injector,
+    options?: ReflectiveInjectorOptions
+  ): ReflectiveInjector {
     // tslint:disable-next-line:no-use-before-declare
-    return new ReflectiveInjector_(providers, parent);
+    return new ReflectiveInjector_(providers, parent, options)._initialize(options);
+  }
+
+  /**
+   * Adds an observer notified of the resolutions of all injectors, see {@link InjectorObserver}.
+   * Returns the function removing it.
+   *
+   * @experimental
+   */
+  static addGlobalObserver(observer: InjectorObserver): () => void {
+    return addObserver(observer);
   }
 
   /**
@@ -169,6 +257,11 @@ export abstract class ReflectiveInjector implements Injector {
    */
   abstract get parent(): Injector | null;
 
+  /**
+   * The name given to this injector when it was created, if any.
+   */
+  abstract get name(): string | null;
+
   /**
    * Resolves an array of providers and creates a child injector from those providers.
    *
@@ -196,7 +289,7 @@ export abstract class ReflectiveInjector implements Injector {
    * because it needs to resolve the passed-in providers first.
    * See {@link Injector#resolve} and {@link Injector#createChildFromResolved}.
    */
-  abstract resolveAndCreateChild(providers: Provider[]): ReflectiveInjector;
+  abstract resolveAndCreateChild(providers: Provider[], options?: ReflectiveInjectorOptions): ReflectiveInjector;
 
   /**
    * Creates a child injector from previously resolved providers.
@@ -223,7 +316,37 @@ export abstract class ReflectiveInjector implements Injector {
    * expect(child.get(ParentProvider)).toBe(parent.get(ParentProvider));
    * ```
    */
-  abstract createChildFromResolved(providers: ResolvedReflectiveProvider[]): ReflectiveInjector;
+  abstract createChildFromResolved(providers: ResolvedReflectiveProvider[], options?: ReflectiveInjectorOptions): ReflectiveInjector;
+
+  /**
+   * Creates a child injector for the scope `name`.
+   *
+   * Providers bound to the scope (with `scope: name`) stay registered in their own injector, but
+   * their instances are created lazily in the nearest enclosing scope injector, once per scope.
+   * Their dependencies are resolved from the scope injector, or from their own injector when it is
+   * enclosed in the scope. All other providers are shared with the parent as usual. Retrieving a
+   * scoped provider from an injector which is not enclosed in its scope throws.
+   *
+   * Destroying the scope destroys the instances created in it.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * var injector = ReflectiveInjector.resolveAndCreate([
+   *   Database,
+   *   {provide: RequestContext, useClass: RequestContext, scope: 'request'}
+   * ]);
+   *
+   * var first = injector.createScope('request');
+   * var second = injector.createScope('request');
+   *
+   * expect(first.get(RequestContext)).toBe(first.get(RequestContext));
+   * expect(first.get(RequestContext)).not.toBe(second.get(RequestContext));
+   * expect(first.get(Database)).toBe(second.get(Database));
+   * expect(() => injector.get(RequestContext)).toThrowError();
+   * ```
+   */
+  abstract createScope(name: string): ReflectiveInjector;
 
   /**
    * Resolves a provider and instantiates an object in the context of the injector.
@@ -278,12 +401,190 @@ export abstract class ReflectiveInjector implements Injector {
   abstract instantiateResolved(provider: ResolvedReflectiveProvider): any;
 
   abstract get(token: any, notFoundValue?: any): any;
+
+  /**
+   * Retrieves an instance from the injector, awaiting every async provider in its dependency
+   * subtree.
+   *
+   * Dependents of an {@link AsyncFactoryProvider} receive the resolved value rather than the
+   * `Promise`. Settled values are cached by the injector, so later `get()` calls return them
+   * synchronously.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * @Injectable()
+   * class Repository {
+   *   constructor(public connection: Connection) {}
+   * }
+   *
+   * var injector = ReflectiveInjector.resolveAndCreate([
+   *   Repository,
+   *   {provide: Connection, useAsyncFactory: () => connect()}
+   * ]);
+   *
+   * var repository = await injector.getAsync(Repository);
+   * expect(repository.connection).toBe(injector.get(Connection));
+   * ```
+   */
+  abstract getAsync(token: any, notFoundValue?: any): Promise<any>;
+
+  /**
+   * Checks that the dependencies of all providers of the injector can be resolved, without
+   * instantiating anything.
+   *
+   * The dependencies are walked through the hierarchy like the injector resolves them. All
+   * problems are reported at once by a {@link ValidationError}, each with the dependency path
+   * leading to it:
+   * - tokens which are not provided, or not within the nearest {@link Host} injector,
+   * - cyclic dependencies, except those broken by {@link lazy} or {@link getter},
+   * - dependencies decorated with {@link Self} which are only provided by an ancestor,
+   * - providers bound to a named scope which are depended on from outside of that scope,
+   * - multi providers extending the entries of the ancestors while those provide the token with
+   *   regular providers, or with multi providers which are keyed differently.
+   *
+   * Tokens provided by a parent which is not a `ReflectiveInjector` are assumed to be valid.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * @Injectable()
+   * class Car {
+   *   constructor(public engine:Engine) {}
+   * }
+   *
+   * var injector = ReflectiveInjector.resolveAndCreate([Car]);
+   * expect(() => injector.validate()).toThrowError(/No provider for Engine! \(Car -> Engine\)/);
+   * ```
+   *
+   * Passing `{validate: true}` to {@link ReflectiveInjector#resolveAndCreate} or any other method
+   * creating an injector validates it right away.
+   */
+  abstract validate(): void;
+
+  /**
+   * Returns the graph of the providers of the injector and its descendants, and of the providers
+   * of the ancestors they depend on, without instantiating anything.
+   *
+   * Every node is owned by an injector and tells whether it has already been instantiated. The
+   * edges carry the flags of the dependencies, like `optional` or `skipSelf`, and multi tokens fan
+   * out to their entries. The graph can be serialised to JSON, Graphviz DOT and Mermaid.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * @Injectable()
+   * class Car {
+   *   constructor(public engine:Engine) {}
+   * }
+   *
+   * var injector = ReflectiveInjector.resolveAndCreate([Car, Engine], undefined, {name: 'app'});
+   * console.log(injector.dependencyGraph().toMermaid());
+   * // flowchart TD
+   * //   subgraph i0 ["app"]
+   * //     n0["Car"]
+   * //     n1["Engine"]
+   * //   end
+   * //   n0 --> n1
+   * //   ...
+   * ```
+   */
+  abstract dependencyGraph(): DependencyGraph;
+
+  /**
+   * Adds an observer notified of the resolutions of the injector and its descendants, until it is
+   * destroyed. Returns the function removing the observer.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * var injector = ReflectiveInjector.resolveAndCreate([Car, Engine]);
+   * var instantiated: string[] = [];
+   * injector.addObserver({onInstantiated: event => instantiated.push(event.key.displayName)});
+   *
+   * injector.get(Car);
+   * expect(instantiated).toEqual(['Engine', 'Car']);
+   * ```
+   *
+   * See {@link InjectorObserver} for the events, and
+   * {@link ReflectiveInjector.addGlobalObserver} to observe all injectors.
+   */
+  abstract addObserver(observer: InjectorObserver): () => void;
+
+  /**
+   * Destroys the injector and every child injector created from it.
+   *
+   * Children are destroyed first. Then the {@link OnDestroy} hook (`ngOnDestroy`, `onDestroy` or
+   * `[Symbol.dispose]`) is called on every instance created by the injector, in reverse order of
+   * instantiation, so that dependents are torn down before their dependencies. Errors thrown by the
+   * hooks are rethrown together once all instances have been destroyed.
+   *
+   * Objects the injector did not create are left alone: the values of `useValue` providers, and
+   * the instances of the ancestors, even when returned by a `useExisting` alias or a factory.
+   *
+   * Retrieving instances from a destroyed injector throws.
+   *
+   * Where the runtime defines `WeakRef`, the injector does not keep its children alive: those
+   * which are no longer referenced anywhere else may be garbage collected without being
+   * destroyed, so children holding resources should be destroyed once done with.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * @Injectable()
+   * class Connection {
+   *   ngOnDestroy() {
+   *     this.close();
+   *   }
+   * }
+   *
+   * var injector = ReflectiveInjector.resolveAndCreate([Connection]);
+   * injector.get(Connection);
+   * injector.destroy();
+   *
+   * expect(() => injector.get(Connection)).toThrowError();
+   * ```
+   */
+  abstract destroy(): void;
+
+  /**
+   * Destroys the injector like {@link ReflectiveInjector#destroy}, awaiting instances which
+   * implement `[Symbol.asyncDispose]()`. Instances implementing `[Symbol.dispose]()` are
+   * recognized by both methods.
+   *
+   * Failing disposers do not abort the teardown: their errors are collected and reported together
+   * once every instance has been visited.
+   *
+   * Where the runtime defines `Symbol.asyncDispose` and `Symbol.dispose`, the injector implements
+   * them with `destroyAsync()` and `destroy()`, so it can be declared with `await using` or `using`.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * {
+   *   await using injector = ReflectiveInjector.resolveAndCreate([DatabasePool]);
+   *   await injector.get(DatabasePool).query('SELECT 1');
+   * } // DatabasePool[Symbol.asyncDispose]() has been awaited here
+   * ```
+   */
+  abstract destroyAsync(): Promise<void>;
+
+  /**
+   * Same as {@link ReflectiveInjector#destroy}, which disposes the injector at the end of the
+   * block declaring it with `using`. Only defined where the runtime defines `Symbol.dispose`.
+   */
+  abstract [Symbol.dispose](): void;
+
+  /**
+   * Same as {@link ReflectiveInjector#destroyAsync}, which disposes the injector at the end of the
+   * block declaring it with `await using`. Only defined where the runtime defines
+   * `Symbol.asyncDispose`.
+   */
+  abstract [Symbol.asyncDispose](): Promise<void>;
 }
 
 // tslint:disable-next-line:class-name
 export class ReflectiveInjector_ implements ReflectiveInjector {
-  /** @internal */
-  _constructionCounter: number = 0;
   /** @internal */
   public _providers: ResolvedReflectiveProvider[];
   /** @internal */
@@ -291,12 +592,66 @@ export class ReflectiveInjector_ implements ReflectiveInjector {
 
   keyIds: number[];
   objs: any[];
+  /**
+   * Maps the id of every provided key to its index in `keyIds`, `objs` and `_providers`.
+   * @internal
+   */
+  _indexByKeyId = new Map<number, number>();
+  /** @internal */
+  _pendingObjs = new Map<ResolvedReflectiveProvider, Promise<any>>();
+  /** @internal */
+  _multiObjs = new Map<number, any[]>();
+  /** @internal */
+  _scopedObjs = new Map<ResolvedReflectiveProvider, any>();
+  /**
+   * Maps the value of a multi provider to its own entries, in the order of its factories, which
+   * are the only ones this injector destroys.
+   * @internal
+   */
+  _ownEntries = new WeakMap<object, any[]>();
+  /** @internal */
+  _instantiated: { provider: ResolvedReflectiveProvider; obj: any }[] = [];
+  /** @internal */
+  _scopeName: string | null = null;
+  /** @internal */
+  _children = new ChildInjectors();
+  /** @internal */
+  _destroyed = false;
+  /** @internal */
+  _isHost: boolean;
+  /** @internal */
+  _name: string | null;
+  /**
+   * Maps key ids to the providers replacing those of the same keys in this injector and its
+   * descendants, see `TestInjector`.
+   * @internal
+   */
+  _overrides: Map<number, ResolvedReflectiveProvider> | null = null;
+  /**
+   * Provides the objects of the keys which no injector of the hierarchy provides, instead of
+   * throwing, see `TestInjector`.
+   * @internal
+   */
+  _fallback: ((key: ReflectiveKey) => any) | null = null;
+  /** @internal */
+  _observers: InjectorObserver[] = [];
+
   /**
    * Private
    */
-  constructor(_providers: ResolvedReflectiveProvider[], _parent?: Injector) {
+  constructor(_providers: ResolvedReflectiveProvider[], _parent?: Injector, options: ReflectiveInjectorOptions = {}) {
+    if (_parent instanceof ReflectiveInjector_) {
+      const overrides = _parent._overrides;
+      if (overrides !== null) {
+        _providers = _providers.map(provider => overrides.get(provider.key.id) || provider);
+        this._overrides = overrides;
+      }
+      this._fallback = _parent._fallback;
+    }
     this._providers = _providers;
     this._parent = _parent || null;
+    this._isHost = !!options.host;
+    this._name = options.name || null;
 
     const len = _providers.length;
 
@@ -304,27 +659,59 @@ export class ReflectiveInjector_ implements ReflectiveInjector {
     this.objs = new Array(len);
 
     for (let i = 0; i < len; i++) {
-      this.keyIds[i] = _providers[i].key.id;
+      const keyId = _providers[i].key.id;
+      this.keyIds[i] = keyId;
       this.objs[i] = UNDEFINED;
+      if (!this._indexByKeyId.has(keyId)) {
+        this._indexByKeyId.set(keyId, i);
+      }
     }
   }
 
   get(token: any, notFoundValue: any = THROW_IF_NOT_FOUND): any {
+    this._assertNotDestroyed();
     return this._getByKey(ReflectiveKey.get(token), null, notFoundValue);
   }
 
+  getAsync(token: any, notFoundValue: any = THROW_IF_NOT_FOUND): Promise<any> {
+    if (this._destroyed) {
+      return Promise.reject(injectorDestroyedError());
+    }
+    return this._getByKeyAsync(ReflectiveKey.get(token), null, notFoundValue, []);
+  }
+
   get parent(): Injector | null {
     return this._parent;
   }
 
-  resolveAndCreateChild(providers: Provider[]): ReflectiveInjector {
+  get name(): string | null {
+    return this._name;
+  }
+
+  /**
+   * The parent of this injector if it is a reflective injector, through which the hierarchy is
+   * walked.
+   * @internal
+   */
+  get _reflectiveParent(): ReflectiveInjector_ | null {
+    return this._parent instanceof ReflectiveInjector_ ? this._parent : null;
+  }
+
+  resolveAndCreateChild(providers: Provider[], options?: ReflectiveInjectorOptions): ReflectiveInjector {
     const ResolvedReflectiveProviders = ReflectiveInjector.resolve(providers);
-    return this.createChildFromResolved(ResolvedReflectiveProviders);
+    return this.createChildFromResolved(ResolvedReflectiveProviders, options);
+  }
+
+  createChildFromResolved(providers: ResolvedReflectiveProvider[], options?: ReflectiveInjectorOptions): ReflectiveInjector {
+    this._assertNotDestroyed();
+    const inj = new ReflectiveInjector_(providers, this, options)._initialize(options);
+    this._children.add(inj);
+    return inj;
   }
 
-  createChildFromResolved(providers: ResolvedReflectiveProvider[]): ReflectiveInjector {
-    const inj = new ReflectiveInjector_(providers);
-    inj._parent = this;
+  createScope(name: string): ReflectiveInjector {
+    const inj = <ReflectiveInjector_>this.createChildFromResolved([]);
+    inj._scopeName = name;
     return inj;
   }
 
@@ -333,9 +720,65 @@ export class ReflectiveInjector_ implements ReflectiveInjector {
   }
 
   instantiateResolved(provider: ResolvedReflectiveProvider): any {
+    this._assertNotDestroyed();
     return this._instantiateProvider(provider);
   }
 
+  destroy(): void {
+    const failures: DestroyFailure[] = [];
+    this._destroyInto(failures);
+    if (failures.length > 0) {
+      throw destroyError(failures.map(f => f.key), failures.map(f => f.error));
+    }
+  }
+
+  async destroyAsync(): Promise<void> {
+    const failures: DestroyFailure[] = [];
+    await this._destroyAsyncInto(failures);
+    if (failures.length > 0) {
+      throw destroyError(failures.map(f => f.key), failures.map(f => f.error));
+    }
+  }
+
+  /**
+   * Validates the injector if requested by `options`, then instantiates its eager providers, in
+   * dependency order as they instantiate their dependencies first. On failure, the instances
+   * created so far are destroyed.
+   * @internal
+   */
+  _initialize(options: ReflectiveInjectorOptions = {}): this {
+    if (options.validate) {
+      this.validate();
+    }
+    try {
+      this._providers.forEach(provider => {
+        if (_isEager(provider) && namedScope(provider) === null && !this._isTransient(provider)) {
+          this._getObjByKeyId(provider.key.id);
+        }
+      });
+    } catch (e) {
+      this._destroyInto([]);
+      throw e;
+    }
+    return this;
+  }
+
+  validate(): void {
+    const errors = validateInjector(this);
+    if (errors.length > 0) {
+      throw validationError(this, errors);
+    }
+  }
+
+  dependencyGraph(): DependencyGraph {
+    return buildDependencyGraph(this);
+  }
+
+  addObserver(observer: InjectorObserver): () => void {
+    this._assertNotDestroyed();
+    return addObserver(observer, this._observers);
+  }
+
   getProviderAtIndex(index: number): ResolvedReflectiveProvider {
     if (index < 0 || index >= this._providers.length) {
       throw outOfBoundsError(index);
@@ -344,30 +787,176 @@ export class ReflectiveInjector_ implements ReflectiveInjector {
   }
 
   /** @internal */
-  _new(provider: ResolvedReflectiveProvider): any {
-    if (this._constructionCounter++ > this._getMaxNumberOfObjects()) {
-      throw cyclicDependencyError(this, provider.key);
+  _new(provider: ResolvedReflectiveProvider, entries?: any[]): any {
+    const cycle = _findCycle(_resolving, this, provider);
+    if (cycle) {
+      throw cyclicDependencyError(this, provider.key, cycle);
     }
-    return this._instantiateProvider(provider);
+    _resolving.push({ injector: this, provider });
+    try {
+      if (!hasObservers()) {
+        return this._instantiateProvider(provider, entries);
+      }
+      return observeInstantiation(this._getObservers(), provider.key, this, _pathKeys(_resolving), () =>
+        this._instantiateProvider(provider, entries)
+      );
+    } finally {
+      _resolving.pop();
+    }
+  }
+
+  /**
+   * Returns the observers of the injector, its ancestors and the global observers.
+   */
+  private _getObservers(): InjectorObserver[] {
+    let observers: InjectorObserver[] = [];
+    let inj: Injector | null = this;
+    while (inj instanceof ReflectiveInjector_) {
+      observers = observers.concat(inj._observers);
+      inj = inj._parent;
+    }
+    return observers.concat(getGlobalObservers());
+  }
+
+  /**
+   * Instantiates a provider whose instances are not cached. Singleton entries of a transient
+   * multi provider are still cached in `_multiObjs`.
+   */
+  private _newTransient(index: number): any {
+    return this._new(this._providers[index], this._getMultiObjs(index));
+  }
+
+  private _getMultiObjs(index: number): any[] | undefined {
+    const provider = this._providers[index];
+    if (!provider.multiProvider) {
+      return undefined;
+    }
+    let entries = this._multiObjs.get(index);
+    if (!entries) {
+      entries = provider.resolvedFactories.map(() => UNDEFINED);
+      this._multiObjs.set(index, entries);
+      this._instantiated.push({ provider, obj: entries });
+    }
+    return entries;
+  }
+
+  /** @internal */
+  _isTransient(provider: ResolvedReflectiveProvider, visited: ResolvedReflectiveProvider[] = []): boolean {
+    const nextVisited = visited.concat([provider]);
+    return provider.resolvedFactories.some(factory => this._isTransientFactory(factory, nextVisited));
   }
 
-  private _getMaxNumberOfObjects(): number {
-    return this.objs.length;
+  private _isTransientFactory(factory: ResolvedReflectiveFactory, visited: ResolvedReflectiveProvider[]): boolean {
+    if (!factory.isAlias) {
+      return factory.scope === 'transient';
+    }
+
+    const found = this._lookup(factory.dependencies[0].key, null);
+    if (found.kind !== 'provided') {
+      return false;
+    }
+    const provider = found.injector._providers[found.index];
+    // Cyclic aliases are reported when they get instantiated.
+    return visited.indexOf(provider) === -1 && found.injector._isTransient(provider, visited);
   }
 
-  private _instantiateProvider(provider: ResolvedReflectiveProvider): any {
+  private _instantiateProvider(provider: ResolvedReflectiveProvider, entries?: any[]): any {
     if (provider.multiProvider) {
       const res = new Array(provider.resolvedFactories.length);
       for (let i = 0; i < provider.resolvedFactories.length; ++i) {
+        if (entries && entries[i] !== UNDEFINED) {
+          res[i] = entries[i];
+          continue;
+        }
         res[i] = this._instantiate(provider, provider.resolvedFactories[i]);
+        if (entries && !this._isTransientFactory(provider.resolvedFactories[i], [provider])) {
+          entries[i] = res[i];
+        }
       }
-      return res;
+      return this._multiValue(provider, provider.extendsParent ? this._getParentEntries(provider.key) : null, res);
     } else {
       return this._instantiate(provider, provider.resolvedFactories[0]);
     }
   }
 
-  private _instantiate(provider: ResolvedReflectiveProvider, ResolvedReflectiveFactory: ResolvedReflectiveFactory): any {
+  /**
+   * Returns the entries the ancestors provide for the multi provider `key`, which precede the
+   * entries of a multi provider extending them.
+   */
+  private _getParentEntries(key: ReflectiveKey): any {
+    return this._getByKey(key, SKIP_SELF, null);
+  }
+
+  /**
+   * Returns the value of a multi `provider`: the array of the `inherited` entries and its `own`
+   * entries, or the `Map` of them by key for a keyed multi provider.
+   */
+  private _multiValue(provider: ResolvedReflectiveProvider, inherited: any, own: any[]): any {
+    if (inherited != null && !Array.isArray(inherited) && !(inherited instanceof Map)) {
+      throw multiProviderMismatchError(this, provider.key, 'regular');
+    }
+    if (isKeyedMultiProvider(provider)) {
+      const factories = provider.resolvedFactories;
+      const res = mapMultiProviderEntries(provider.key.token, factories.map(f => f.multiKey!), factories.map(f => f.order), own, inherited);
+      this._ownEntries.set(res, own);
+      return res;
+    }
+    if (inherited instanceof Map) {
+      throw mixingKeyedMultiProvidersError(provider.key.token);
+    }
+    return this._sortMultiEntries(provider, inherited || [], own);
+  }
+
+  /**
+   * Sorts the `inherited` entries of the ancestors, which an extending multi `provider` is
+   * preceded by, and its `own` entries by the {@link MultiProviderOrder} they declare.
+   */
+  private _sortMultiEntries(provider: ResolvedReflectiveProvider, inherited: any[], own: any[]): any[] {
+    const entries = inherited.concat(own);
+    const orders =
+      this._getMultiOrders(provider) ||
+      inherited.map((): MultiProviderOrder | null => null).concat(provider.resolvedFactories.map(f => f.order));
+    const sorted = sortMultiProviderEntries(provider.key.token, orders);
+    const res = sorted === null ? entries : sorted.map(i => entries[i]);
+    this._ownEntries.set(res, own);
+    return res;
+  }
+
+  /**
+   * Returns the orders of the entries of `provider` in this injector before sorting, or `null` when
+   * those of the inherited entries are unknown.
+   * @internal
+   */
+  _getMultiOrders(provider: ResolvedReflectiveProvider): (MultiProviderOrder | null)[] | null {
+    const own = provider.resolvedFactories.map(f => f.order);
+    if (!provider.extendsParent) {
+      return own;
+    }
+
+    const found = this._lookup(provider.key, SKIP_SELF);
+    if (found.kind !== 'provided') {
+      return found.kind === 'pastRoot' && found.parent === null ? own : null;
+    }
+    const orders = found.injector._getMultiOrders(found.injector._providers[found.index]);
+    if (orders === null) {
+      return null;
+    }
+    const sorted = sortMultiProviderEntries(provider.key.token, orders);
+    return (sorted === null ? orders : sorted.map(i => orders[i])).concat(own);
+  }
+
+  private _instantiate(provider: ResolvedReflectiveProvider, factory: ResolvedReflectiveFactory): any {
+    const profiler = getActiveProfiler();
+    if (profiler === null) {
+      return this._construct(provider, factory);
+    }
+    return profiler._profile(this, provider.key, () => this._construct(provider, factory));
+  }
+
+  private _construct(provider: ResolvedReflectiveProvider, ResolvedReflectiveFactory: ResolvedReflectiveFactory): any {
+    if (ResolvedReflectiveFactory.isAsync) {
+      throw asyncProviderError(this, provider.key);
+    }
     const factory = ResolvedReflectiveFactory.factory;
 
     let deps: any[];
@@ -381,81 +970,655 @@ export class ReflectiveInjector_ implements ReflectiveInjector {
     }
 
     let obj: any;
+    const previousInjector = setCurrentInjector(this);
     try {
       obj = factory(...deps);
     } catch (e) {
       throw instantiationError(this, e, e.stack, provider.key);
+    } finally {
+      setCurrentInjector(previousInjector);
+    }
+
+    try {
+      ResolvedReflectiveFactory.properties.forEach(prop => (obj[prop.name] = this._getByReflectiveDependency(prop.dependency)));
+    } catch (e) {
+      if (e.addKey) {
+        e.addKey(this, provider.key);
+      }
+      throw e;
     }
 
     return obj;
   }
 
-  private _getByReflectiveDependency(dep: ReflectiveDependency): any {
-    return this._getByKey(dep.key, dep.visibility, dep.optional ? null : THROW_IF_NOT_FOUND);
+  /**
+   * Resolves `token` for {@link inject}, the flags being the modifiers of the dependency.
+   * @internal
+   */
+  _inject(token: any, flags: InjectFlags): any {
+    const visibility =
+      flags & InjectFlags.Self ? new Self() : flags & InjectFlags.SkipSelf ? new SkipSelf() : flags & InjectFlags.Host ? new Host() : null;
+    return this._getByReflectiveDependency(
+      new ReflectiveDependency(ReflectiveKey.get(token), (flags & InjectFlags.Optional) !== 0, visibility)
+    );
   }
 
-  private _getByKey(key: ReflectiveKey, visibility: Self | SkipSelf | null, notFoundValue: any): any {
-    // tslint:disable-next-line:no-use-before-declare
-    if (key === INJECTOR_KEY) {
-      return this;
+  /** @internal */
+  _getByReflectiveDependency(dep: ReflectiveDependency): any {
+    if (dep.deferred !== null) {
+      return this._getDeferred(dep);
     }
+    return this._getByKey(dep.key, dep.visibility, dep.optional ? null : THROW_IF_NOT_FOUND);
+  }
 
-    if (visibility instanceof Self) {
-      return this._getByKeySelf(key, notFoundValue);
-    } else {
-      return this._getByKeyDefault(key, notFoundValue, visibility);
+  /**
+   * Wraps the resolution of `dep` into a {@link Lazy} or a {@link Getter}, which resolves it from
+   * this injector on demand.
+   */
+  private _getDeferred(dep: ReflectiveDependency): Lazy<any> | Getter<any> | Map<string, Lazy<any>> | null {
+    if (dep.deferred === 'lazyEntries') {
+      return this._getLazyEntries(dep);
     }
+    const get = () => {
+      this._assertNotDestroyed();
+      return this._getByKey(dep.key, dep.visibility, dep.optional ? null : THROW_IF_NOT_FOUND);
+    };
+    return dep.deferred === 'lazy' ? new Lazy_(get) : get;
   }
 
-  private _getObjByKeyId(keyId: number): any {
-    for (let i = 0; i < this.keyIds.length; i++) {
-      if (this.keyIds[i] === keyId) {
-        if (this.objs[i] === UNDEFINED) {
-          this.objs[i] = this._new(this._providers[i]);
-        }
-
-        return this.objs[i];
+  /**
+   * Returns {@link Lazy} handles to the entries of the keyed multi provider `dep.key`, which is
+   * looked up like any other dependency.
+   */
+  private _getLazyEntries(dep: ReflectiveDependency): Map<string, Lazy<any>> | null {
+    const found = this._lookup(dep.key, dep.visibility);
+    if (found.kind === 'provided') {
+      return found.injector._getLazyEntriesAt(found.index, this);
+    }
+
+    // Entries provided past the reflective injectors are already instantiated.
+    const entries = this._getByKey(dep.key, dep.visibility, dep.optional ? null : THROW_IF_NOT_FOUND);
+    if (entries === null) {
+      return null;
+    }
+    if (!(entries instanceof Map)) {
+      throw notKeyedMultiProviderError(dep.key);
+    }
+    const res = new Map<string, Lazy<any>>();
+    entries.forEach((value, key) => res.set(key, new Lazy_(() => value)));
+    return res;
+  }
+
+  /** @internal */
+  _getLazyEntriesAt(index: number, requester: ReflectiveInjector_): Map<string, Lazy<any>> {
+    const provider = this._providers[index];
+    if (!provider.multiProvider || !isKeyedMultiProvider(provider)) {
+      throw notKeyedMultiProviderError(provider.key);
+    }
+    const inherited = provider.extendsParent
+      ? this._getLazyEntries(new ReflectiveDependency(provider.key, true, SKIP_SELF, 'lazyEntries'))
+      : null;
+    const factories = provider.resolvedFactories;
+    const scope = namedScope(provider);
+    const own = factories.map(
+      (factory, i) =>
+        new Lazy_(() => {
+          requester._assertNotDestroyed();
+          if (scope !== null) {
+            return this._findScope(scope, requester, provider.key)
+              ._getScopedObj(provider, this)
+              .get(factory.multiKey);
+          }
+          return this._getEntry(index, i);
+        })
+    );
+    return mapMultiProviderEntries(provider.key.token, factories.map(f => f.multiKey!), factories.map(f => f.order), own, inherited);
+  }
+
+  /**
+   * Returns the `i`th entry of the multi provider at `index`, instantiating only that entry if
+   * needed.
+   */
+  private _getEntry(index: number, i: number): any {
+    if (this.objs[index] !== UNDEFINED) {
+      return this._ownEntries.get(this.objs[index])![i];
+    }
+    const entries = this._getMultiObjs(index)!;
+    if (entries[i] !== UNDEFINED) {
+      return entries[i];
+    }
+    const provider = this._providers[index];
+    const factory = provider.resolvedFactories[i];
+    const cycle = _findCycle(_resolving, this, provider);
+    if (cycle) {
+      throw cyclicDependencyError(this, provider.key, cycle);
+    }
+    _resolving.push({ injector: this, provider });
+    try {
+      const obj = this._instantiate(provider, factory);
+      if (!this._isTransientFactory(factory, [provider])) {
+        entries[i] = obj;
       }
+      return obj;
+    } finally {
+      _resolving.pop();
     }
+  }
 
-    return UNDEFINED;
+  private _getByKey(key: ReflectiveKey, visibility: Self | SkipSelf | Host | null, notFoundValue: any): any {
+    if (key === INJECTOR_KEY) {
+      return this;
+    }
+
+    const found = this._lookup(key, visibility);
+    if (found.kind === 'provided') {
+      return found.injector._getObjAt(found.index, this);
+    } else if (found.kind === 'self') {
+      return this._throwOrNull(key, notFoundValue);
+    } else if (found.kind === 'host') {
+      return this._throwOrNullInHost(key, notFoundValue, found.injector);
+    }
+    const obj = this._getPastRoot(found.injector, found.parent, key, notFoundValue);
+    return obj !== UNDEFINED ? obj : found.injector!._getObjByKeyId(key.id, this);
+  }
+
+  /**
+   * Finds where `key` is provided for this injector, walking up the hierarchy as `visibility`
+   * requires, without instantiating anything. Resolving, validating and graphing the dependencies
+   * all rely on it, so that they agree on their providers.
+   * @internal
+   */
+  _lookup(key: ReflectiveKey, visibility: Self | SkipSelf | Host | null): ProviderLookup {
+    let inj: Injector | null = visibility instanceof SkipSelf ? this._parent : this;
+    let root: ReflectiveInjector_ | null = null;
+    while (inj instanceof ReflectiveInjector_) {
+      const index = inj._indexByKeyId.get(key.id);
+      if (index !== undefined) {
+        return { kind: 'provided', injector: inj, index };
+      }
+      if (visibility instanceof Self) {
+        return { kind: 'self', injector: inj };
+      }
+      if (visibility instanceof Host && inj._isHost) {
+        return { kind: 'host', injector: inj };
+      }
+      root = inj;
+      inj = inj._parent;
+    }
+    return { kind: 'pastRoot', injector: root, parent: inj };
+  }
+
+  /**
+   * Returns the instance of `provider`, provided by `declaring` and bound to this scope, which is
+   * cached in the scope.
+   * @internal
+   */
+  _getScopedObj(provider: ResolvedReflectiveProvider, declaring: ReflectiveInjector_): any {
+    if (this._scopedObjs.has(provider)) {
+      return this._scopedObjs.get(provider);
+    }
+
+    this._assertNotPending(provider);
+    const obj = this._scopedContext(declaring)._new(provider);
+    this._scopedObjs.set(provider, obj);
+    this._instantiated.push({ provider, obj });
+    return obj;
+  }
+
+  /**
+   * Throws when `provider` is being instantiated by `getAsync()`, as instantiating it synchronously
+   * would create a second instance of it.
+   */
+  private _assertNotPending(provider: ResolvedReflectiveProvider): void {
+    if (this._pendingObjs.has(provider)) {
+      throw asyncProviderError(this, provider.key);
+    }
+  }
+
+  /**
+   * Returns the injector resolving the dependencies of the providers of `declaring` bound to this
+   * scope: `declaring` when it is enclosed in the scope, so that the providers declared next to
+   * them are visible, or else the scope itself.
+   */
+  private _scopedContext(declaring: ReflectiveInjector_): ReflectiveInjector_ {
+    let inj: Injector | null = declaring;
+    while (inj instanceof ReflectiveInjector_) {
+      if (inj === this) {
+        return declaring;
+      }
+      inj = inj._parent;
+    }
+    return this;
+  }
+
+  /**
+   * Finds the injector of the nearest `scope` enclosing the `requester`, in which the instances of
+   * providers bound to that scope are created.
+   */
+  private _findScope(scope: string, requester: ReflectiveInjector_, key: ReflectiveKey): ReflectiveInjector_ {
+    const inj = requester._enclosingScope(scope);
+    if (inj === null) {
+      throw outOfScopeError(requester, key, scope);
+    }
+    return inj;
+  }
+
+  /**
+   * Returns the injector of the nearest `scope` enclosing this injector, if any.
+   * @internal
+   */
+  _enclosingScope(scope: string): ReflectiveInjector_ | null {
+    let inj: Injector | null = this;
+    while (inj instanceof ReflectiveInjector_) {
+      if (inj._scopeName === scope) {
+        return inj;
+      }
+      inj = inj._parent;
+    }
+    return null;
+  }
+
+  private _getObjByKeyId(keyId: number, requester: ReflectiveInjector_ = this): any {
+    const i = this._indexByKeyId.get(keyId);
+    return i !== undefined ? this._getObjAt(i, requester) : UNDEFINED;
+  }
+
+  private _getObjAt(i: number, requester: ReflectiveInjector_): any {
+    if (this.objs[i] === UNDEFINED) {
+      const provider = this._providers[i];
+      const scope = namedScope(provider);
+      if (scope !== null) {
+        return this._findScope(scope, requester, provider.key)._getScopedObj(provider, this);
+      }
+      if (this._isTransient(provider)) {
+        return this._newTransient(i);
+      }
+      this._assertNotPending(provider);
+      this.objs[i] = this._new(provider, this._multiObjs.get(i));
+      this._instantiated.push({ provider, obj: this.objs[i] });
+    }
+
+    return this.objs[i];
   }
 
   /** @internal */
-  _throwOrNull(key: ReflectiveKey, notFoundValue: any): any {
+  _throwOrNull(key: ReflectiveKey, notFoundValue: any, path: ResolutionPath = _resolving): any {
+    this._observeNotFound(key, path);
     if (notFoundValue !== THROW_IF_NOT_FOUND) {
       return notFoundValue;
+    } else if (this._fallback !== null) {
+      return this._fallback(key);
     } else {
       throw noProviderError(this, key);
     }
   }
 
-  /** @internal */
-  _getByKeySelf(key: ReflectiveKey, notFoundValue: any): any {
-    const obj = this._getObjByKeyId(key.id);
-    return obj !== UNDEFINED ? obj : this._throwOrNull(key, notFoundValue);
+  private _observeNotFound(key: ReflectiveKey, path: ResolutionPath): void {
+    if (hasObservers()) {
+      observeNotFound(this._getObservers(), key, this, _pathKeys(path).concat([key]));
+    }
   }
 
   /** @internal */
-  _getByKeyDefault(key: ReflectiveKey, notFoundValue: any, visibility: Self | SkipSelf | null): any {
-    let inj: Injector | null;
-
-    if (visibility instanceof SkipSelf) {
-      inj = this._parent;
+  _throwOrNullInHost(key: ReflectiveKey, notFoundValue: any, host: ReflectiveInjector_, path: ResolutionPath = _resolving): any {
+    this._observeNotFound(key, path);
+    if (notFoundValue !== THROW_IF_NOT_FOUND) {
+      return notFoundValue;
+    } else if (this._fallback !== null) {
+      return this._fallback(key);
     } else {
-      inj = this;
+      throw noProviderInHostError(this, key, host);
     }
+  }
 
-    while (inj instanceof ReflectiveInjector_) {
-      const inj_ = <ReflectiveInjector_>inj;
-      const obj = inj_._getObjByKeyId(key.id);
+  /**
+   * Resolves `key` when no injector up to `root`, the topmost `ReflectiveInjector`, provides it.
+   *
+   * Returns the object provided by the non-reflective `parent` of `root` if any, or else
+   * `UNDEFINED` after registering the class decorated with `@Injectable({providedIn: 'root'})` in
+   * `root`, from which the caller then gets the object.
+   */
+  private _getPastRoot(
+    root: ReflectiveInjector_ | null,
+    parent: Injector | null,
+    key: ReflectiveKey,
+    notFoundValue: any,
+    path: ResolutionPath = _resolving
+  ): any {
+    const provider = root !== null ? resolveProvidedInRoot(key.token) : null;
+    if (parent !== null) {
+      const obj = parent.get(key.token, provider !== null || this._fallback !== null ? UNDEFINED : notFoundValue);
       if (obj !== UNDEFINED) return obj;
-      inj = inj_._parent;
     }
-    if (inj !== null) {
-      return inj.get(key.token, notFoundValue);
+    if (provider === null) {
+      return this._throwOrNull(key, notFoundValue, path);
+    }
+    root!._addProvider(provider!);
+    return UNDEFINED;
+  }
+
+  /**
+   * Adds a provider once the injector has been created, see `_getPastRoot`.
+   */
+  private _addProvider(provider: ResolvedReflectiveProvider): void {
+    const i = this._providers.length;
+    this._providers = this._providers.concat([provider]);
+    this.keyIds.push(provider.key.id);
+    this.objs.push(UNDEFINED);
+    this._indexByKeyId.set(provider.key.id, i);
+  }
+
+  private _newAsync(provider: ResolvedReflectiveProvider, path: ResolutionPath, entries?: any[]): Promise<any> {
+    if (!hasObservers()) {
+      return this._instantiateProviderAsync(provider, path, entries);
+    }
+    return observeInstantiationAsync(this._getObservers(), provider.key, this, _pathKeys(path), () =>
+      this._instantiateProviderAsync(provider, path, entries)
+    );
+  }
+
+  private async _instantiateProviderAsync(provider: ResolvedReflectiveProvider, path: ResolutionPath, entries?: any[]): Promise<any> {
+    if (provider.multiProvider) {
+      const res = new Array(provider.resolvedFactories.length);
+      for (let i = 0; i < provider.resolvedFactories.length; ++i) {
+        if (entries && entries[i] !== UNDEFINED) {
+          res[i] = entries[i];
+          continue;
+        }
+        res[i] = await this._instantiateAsync(provider, provider.resolvedFactories[i], path);
+        if (entries && !this._isTransientFactory(provider.resolvedFactories[i], [provider])) {
+          entries[i] = res[i];
+        }
+      }
+      const inherited = provider.extendsParent ? await this._getByKeyAsync(provider.key, SKIP_SELF, null, path) : null;
+      return this._multiValue(provider, inherited, res);
     } else {
-      return this._throwOrNull(key, notFoundValue);
+      return this._instantiateAsync(provider, provider.resolvedFactories[0], path);
+    }
+  }
+
+  private _instantiateAsync(provider: ResolvedReflectiveProvider, factory: ResolvedReflectiveFactory, path: ResolutionPath): Promise<any> {
+    const profiler = getActiveProfiler();
+    if (profiler === null) {
+      return this._constructAsync(provider, factory, path);
+    }
+    const step = path[path.length - 1];
+    const parent = path.length > 1 ? path[path.length - 2] : null;
+    return profiler._profileAsync(this, provider.key, step, parent, () => this._constructAsync(provider, factory, path));
+  }
+
+  private async _constructAsync(
+    provider: ResolvedReflectiveProvider,
+    ResolvedReflectiveFactory: ResolvedReflectiveFactory,
+    path: ResolutionPath
+  ): Promise<any> {
+    const factory = ResolvedReflectiveFactory.factory;
+
+    const deps: any[] = [];
+    try {
+      for (const dep of ResolvedReflectiveFactory.dependencies) {
+        deps.push(
+          dep.deferred !== null
+            ? this._getDeferred(dep)
+            : await this._getByKeyAsync(dep.key, dep.visibility, dep.optional ? null : THROW_IF_NOT_FOUND, path)
+        );
+      }
+    } catch (e) {
+      if (e.addKey) {
+        e.addKey(this, provider.key);
+      }
+      throw e;
+    }
+
+    let obj: any;
+    try {
+      obj = runInInjectionContext(this, () => factory(...deps));
+      if (ResolvedReflectiveFactory.isAsync) {
+        obj = await obj;
+      }
+    } catch (e) {
+      throw instantiationError(this, e, e.stack, provider.key);
+    }
+
+    try {
+      for (const prop of ResolvedReflectiveFactory.properties) {
+        const dep = prop.dependency;
+        obj[prop.name] =
+          dep.deferred !== null
+            ? this._getDeferred(dep)
+            : await this._getByKeyAsync(dep.key, dep.visibility, dep.optional ? null : THROW_IF_NOT_FOUND, path);
+      }
+    } catch (e) {
+      if (e.addKey) {
+        e.addKey(this, provider.key);
+      }
+      throw e;
+    }
+
+    return obj;
+  }
+
+  /**
+   * `path` holds the providers being instantiated by the current resolution chain, which is how
+   * cycles are told apart from concurrent requests for the same provider.
+   */
+  private async _getByKeyAsync(
+    key: ReflectiveKey,
+    visibility: Self | SkipSelf | Host | null,
+    notFoundValue: any,
+    path: ResolutionPath
+  ): Promise<any> {
+    if (key === INJECTOR_KEY) {
+      return this;
+    }
+
+    const found = this._lookup(key, visibility);
+    if (found.kind === 'provided') {
+      return found.injector._getObjAtAsync(found.index, path, this);
+    } else if (found.kind === 'self') {
+      return this._throwOrNull(key, notFoundValue, path);
+    } else if (found.kind === 'host') {
+      return this._throwOrNullInHost(key, notFoundValue, found.injector, path);
+    }
+    const obj = this._getPastRoot(found.injector, found.parent, key, notFoundValue, path);
+    return obj !== UNDEFINED ? obj : found.injector!._getObjByKeyIdAsync(key.id, path, this);
+  }
+
+  private _getObjByKeyIdAsync(keyId: number, path: ResolutionPath, requester: ReflectiveInjector_): Promise<any> {
+    const i = this._indexByKeyId.get(keyId);
+    return i !== undefined ? this._getObjAtAsync(i, path, requester) : Promise.resolve(UNDEFINED);
+  }
+
+  private _getObjAtAsync(i: number, path: ResolutionPath, requester: ReflectiveInjector_): Promise<any> {
+    if (this.objs[i] !== UNDEFINED) {
+      return Promise.resolve(this.objs[i]);
+    }
+
+    const provider = this._providers[i];
+    const key = provider.key;
+    const scope = namedScope(provider);
+    if (scope !== null) {
+      try {
+        return this._findScope(scope, requester, key)._getScopedObjAsync(provider, path, this);
+      } catch (e) {
+        return Promise.reject(e);
+      }
+    }
+
+    const cycle = _findCycle(path, this, provider);
+    if (cycle) {
+      return Promise.reject(cyclicDependencyError(this, key, cycle));
+    }
+    const nextPath = path.concat([{ injector: this, provider }]);
+    if (this._isTransient(provider)) {
+      return this._newAsync(provider, nextPath, this._getMultiObjs(i));
+    }
+
+    return this._instantiateOnceAsync(provider, nextPath, obj => (this.objs[i] = obj), this._multiObjs.get(i));
+  }
+
+  /** @internal */
+  _getScopedObjAsync(provider: ResolvedReflectiveProvider, path: ResolutionPath, declaring: ReflectiveInjector_): Promise<any> {
+    if (this._scopedObjs.has(provider)) {
+      return Promise.resolve(this._scopedObjs.get(provider));
+    }
+    const context = this._scopedContext(declaring);
+    const cycle = _findCycle(path, context, provider);
+    if (cycle) {
+      return Promise.reject(cyclicDependencyError(context, provider.key, cycle));
+    }
+    const nextPath = path.concat([{ injector: context, provider }]);
+    return this._instantiateOnceAsync(provider, nextPath, obj => this._scopedObjs.set(provider, obj), undefined, context);
+  }
+
+  /**
+   * Instantiates a provider in `context`, sharing the pending instantiation with concurrent
+   * requests, and hands the settled instance to `store`. The instance is destroyed instead if the injector has
+   * been destroyed in the meantime.
+   */
+  private _instantiateOnceAsync(
+    provider: ResolvedReflectiveProvider,
+    path: ResolutionPath,
+    store: (obj: any) => void,
+    entries?: any[],
+    context: ReflectiveInjector_ = this
+  ): Promise<any> {
+    let pending = this._pendingObjs.get(provider);
+    if (!pending) {
+      pending = context._newAsync(provider, path, entries).then(
+        async (obj: any) => {
+          this._pendingObjs.delete(provider);
+          if (this._destroyed) {
+            await this._destroySettled(provider, obj);
+            throw injectorDestroyedError();
+          }
+          store(obj);
+          this._instantiated.push({ provider, obj });
+          return obj;
+        },
+        (e: any) => {
+          this._pendingObjs.delete(provider);
+          throw e;
+        }
+      );
+      this._pendingObjs.set(provider, pending);
+    }
+    return pending;
+  }
+
+  /** @internal */
+  _destroyInto(failures: DestroyFailure[]): void {
+    if (!this._beginDestroy()) {
+      return;
+    }
+    const children = this._children.take();
+    for (let i = children.length - 1; i >= 0; i--) {
+      children[i]._destroyInto(failures);
+    }
+    for (const disposable of this._takeDisposables()) {
+      try {
+        _callOnDestroy(disposable.instance);
+      } catch (e) {
+        failures.push({ key: disposable.key, error: e });
+      }
+    }
+  }
+
+  /** @internal */
+  async _destroyAsyncInto(failures: DestroyFailure[]): Promise<void> {
+    if (!this._beginDestroy()) {
+      return;
+    }
+    const children = this._children.take();
+    for (let i = children.length - 1; i >= 0; i--) {
+      await children[i]._destroyAsyncInto(failures);
+    }
+    await this._disposeAsyncInto(failures);
+  }
+
+  /**
+   * Destroys the instance of `provider` which settled once the injector had been destroyed.
+   */
+  private async _destroySettled(provider: ResolvedReflectiveProvider, obj: any): Promise<void> {
+    const failures: DestroyFailure[] = [];
+    this._instantiated.push({ provider, obj });
+    await this._disposeAsyncInto(failures);
+    if (failures.length > 0) {
+      throw destroyError(failures.map(f => f.key), failures.map(f => f.error));
+    }
+  }
+
+  private async _disposeAsyncInto(failures: DestroyFailure[]): Promise<void> {
+    for (const disposable of this._takeDisposables()) {
+      try {
+        await _callOnDestroyAsync(disposable.instance);
+      } catch (e) {
+        failures.push({ key: disposable.key, error: e });
+      }
+    }
+  }
+
+  private _beginDestroy(): boolean {
+    if (this._destroyed) {
+      return false;
+    }
+    this._destroyed = true;
+    clearObservers(this._observers);
+    if (this._parent instanceof ReflectiveInjector_) {
+      this._parent._children.delete(this);
+    }
+    return true;
+  }
+
+  /**
+   * Releases the instances held by the injector, returning those it has created in the order they
+   * have to be destroyed in: reverse instantiation order, with aliased instances listed once.
+   *
+   * Values, aliases and the instances of the ancestors, which a factory may return, are owned by
+   * someone else and are not destroyed.
+   */
+  private _takeDisposables(): { key: ReflectiveKey; instance: any }[] {
+    const disposables: { key: ReflectiveKey; instance: any }[] = [];
+    const seen = new Set<any>();
+    let inj = this._parent;
+    while (inj instanceof ReflectiveInjector_) {
+      inj._forEachInstance((provider, factory, instance) => seen.add(instance));
+      inj = inj._parent;
+    }
+    this._forEachInstance((provider, factory, instance) => {
+      if (factory.isAlias || factory.isValue || seen.has(instance)) return;
+      seen.add(instance);
+      disposables.push({ key: provider.key, instance });
+    });
+    for (let i = 0; i < this.objs.length; i++) {
+      this.objs[i] = UNDEFINED;
+    }
+    this._instantiated = [];
+    this._multiObjs.clear();
+    this._scopedObjs.clear();
+    return disposables;
+  }
+
+  /**
+   * Calls `fn` for every instance held by the injector, with the factory which returned it, in
+   * reverse instantiation order.
+   */
+  private _forEachInstance(fn: (provider: ResolvedReflectiveProvider, factory: ResolvedReflectiveFactory, instance: any) => void): void {
+    for (let i = this._instantiated.length - 1; i >= 0; i--) {
+      const { provider, obj } = this._instantiated[i];
+      const instances: any[] = provider.multiProvider ? this._ownEntries.get(obj) || obj : [obj];
+      for (let j = instances.length - 1; j >= 0; j--) {
+        const instance = instances[j];
+        if (instance == null || instance === UNDEFINED) continue;
+        fn(provider, provider.resolvedFactories[j], instance);
+      }
+    }
+  }
+
+  /** @internal */
+  _assertNotDestroyed(): void {
+    if (this._destroyed) {
+      throw injectorDestroyedError();
     }
   }
 
@@ -469,7 +1632,20 @@ export class ReflectiveInjector_ implements ReflectiveInjector {
   }
 }
 
-const INJECTOR_KEY = ReflectiveKey.get(Injector);
+/**
+ * Where `ReflectiveInjector_#_lookup` found the provider of a key:
+ * - `provided`: at `index` in `injector`,
+ * - `self`: not in `injector`, the only one a {@link Self} dependency is looked up in,
+ * - `host`: not in the injectors up to `injector`, the nearest host of a {@link Host} dependency,
+ * - `pastRoot`: not in any reflective injector, `injector` being the topmost one if any, which
+ *   leaves it to their non-reflective `parent` or to `@Injectable({providedIn: 'root'})`.
+ * @internal
+ */
+export type ProviderLookup =
+  | { kind: 'provided'; injector: ReflectiveInjector_; index: number }
+  | { kind: 'self'; injector: ReflectiveInjector_ }
+  | { kind: 'host'; injector: ReflectiveInjector_ }
+  | { kind: 'pastRoot'; injector: ReflectiveInjector_ | null; parent: Injector | null };
 
 function _mapProviders(injector: ReflectiveInjector_, fn: Function): any[] {
   const res: any[] = new Array(injector._providers.length);
@@ -478,3 +1654,134 @@ function _mapProviders(injector: ReflectiveInjector_, fn: Function): any[] {
   }
   return res;
 }
+
+type ResolutionPath = { injector: ReflectiveInjector_; provider: ResolvedReflectiveProvider }[];
+
+function _pathKeys(path: ResolutionPath): ReflectiveKey[] {
+  return path.map(step => step.provider.key);
+}
+
+/**
+ * The providers being instantiated synchronously, across all injectors, in resolution order.
+ * Async resolutions carry their own path instead, as several of them can be in flight at once.
+ */
+const _resolving: ResolutionPath = [];
+
+/**
+ * Returns the cycle closed by instantiating `provider` in `injector` again, if it is already part
+ * of the `path`.
+ */
+function _findCycle(path: ResolutionPath, injector: ReflectiveInjector_, provider: ResolvedReflectiveProvider): ResolutionStep[] | null {
+  for (let i = 0; i < path.length; i++) {
+    if (path[i].injector === injector && path[i].provider === provider) {
+      return path
+        .slice(i)
+        .concat([path[i]])
+        .map(step => ({ key: step.provider.key, injector: step.injector }));
+    }
+  }
+  return null;
+}
+
+interface DestroyFailure {
+  key: ReflectiveKey;
+  error: any;
+}
+
+// tslint:disable-next-line:class-name
+export interface ReflectiveInjector_ {
+  // Defined on the prototype below, as not all runtimes define the symbols.
+  [Symbol.dispose](): void;
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+const _injectFromInjector: InjectImplementation = setInjectImplementation((injector, token, flags) =>
+  injector instanceof ReflectiveInjector_ ? injector._inject(token, flags) : _injectFromInjector(injector, token, flags)
+);
+
+const _dispose = getWellKnownSymbol('dispose');
+const _asyncDispose = getWellKnownSymbol('asyncDispose');
+
+if (_dispose) {
+  (<any>ReflectiveInjector_.prototype)[_dispose] = ReflectiveInjector_.prototype.destroy;
+}
+if (_asyncDispose) {
+  (<any>ReflectiveInjector_.prototype)[_asyncDispose] = ReflectiveInjector_.prototype.destroyAsync;
+}
+
+const _WeakRef: (new (target: ReflectiveInjector_) => { deref(): ReflectiveInjector_ | undefined }) | undefined = (<any>global).WeakRef;
+
+/**
+ * The children of an injector, which it destroys with itself. They are held weakly where the
+ * runtime defines `WeakRef`, so that the children which are neither destroyed nor referenced
+ * anymore, like those created per request, can be garbage collected. Elsewhere, they are held
+ * until they are destroyed.
+ */
+class ChildInjectors {
+  private _refs: { deref(): ReflectiveInjector_ | undefined }[] = [];
+  /**
+   * The number of children left by the last removal of the collected ones.
+   */
+  private _live = 0;
+
+  add(child: ReflectiveInjector_): void {
+    if (this._refs.length >= 2 * this._live + 16) {
+      this._prune();
+    }
+    this._refs.push(_WeakRef ? new _WeakRef(child) : { deref: () => child });
+  }
+
+  delete(child: ReflectiveInjector_): void {
+    for (let i = 0; i < this._refs.length; i++) {
+      if (this._refs[i].deref() === child) {
+        this._refs.splice(i, 1);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Returns the children which have not been collected, in creation order.
+   */
+  toArray(): ReflectiveInjector_[] {
+    this._prune();
+    return this._refs.map(ref => ref.deref()!);
+  }
+
+  /**
+   * Returns the children and forgets them, as their parent is being destroyed.
+   */
+  take(): ReflectiveInjector_[] {
+    const children = this.toArray();
+    this._refs = [];
+    this._live = 0;
+    return children;
+  }
+
+  private _prune(): void {
+    this._refs = this._refs.filter(ref => ref.deref() !== undefined);
+    this._live = this._refs.length;
+  }
+}
+
+function _isEager(provider: ResolvedReflectiveProvider): boolean {
+  return provider.resolvedFactories.some(factory => factory.eager);
+}
+
+function _callOnDestroy(instance: any): void {
+  const type = instance.constructor;
+  if (reflector.hasLifecycleHook(type, 'ngOnDestroy')) {
+    instance.ngOnDestroy();
+  } else if (reflector.hasLifecycleHook(type, 'onDestroy')) {
+    instance.onDestroy();
+  } else if (_dispose && reflector.hasLifecycleHook(type, _dispose)) {
+    instance[_dispose]();
+  }
+}
+
+function _callOnDestroyAsync(instance: any): any {
+  if (_asyncDispose && reflector.hasLifecycleHook(instance.constructor, _asyncDispose)) {
+    return instance[_asyncDispose]();
+  }
+  return _callOnDestroy(instance);
+}
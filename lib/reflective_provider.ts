@@ -7,29 +7,66 @@
  */
 
 import { reflector } from './reflection/reflection';
-import { Type } from './facade/type';
+import { Type, isType } from './facade/type';
 
 import { resolveForwardRef } from './forward_ref';
 import { InjectionToken } from './injection_token';
-import { Inject, Optional, Self, SkipSelf } from './metadata';
-import { ClassProvider, ExistingProvider, FactoryProvider, Provider, TypeProvider, ValueProvider } from './provider';
-import { invalidProviderError, mixingMultiProvidersWithRegularProvidersError, noAnnotationError } from './reflective_errors';
+import { DeferredToken } from './lazy';
+import { MultiProviderOrder, getMultiProviderOrder } from './multi_provider_order';
+import { Host, Inject, InjectProperty, Injectable, Optional, Self, SkipSelf } from './metadata';
+import {
+  AsyncFactoryProvider,
+  ClassProvider,
+  ExistingProvider,
+  FactoryProvider,
+  Provider,
+  ProviderScope,
+  TypeProvider,
+  ValueProvider,
+} from './provider';
+import {
+  duplicateMultiKeyError,
+  eagerAsyncProviderError,
+  invalidProviderError,
+  mixingKeyedMultiProvidersError,
+  mixingMultiProvidersWithRegularProvidersError,
+  noAnnotationError,
+  noPropertyAnnotationError,
+} from './reflective_errors';
 import { ReflectiveKey } from './reflective_key';
 
-interface NormalizedProvider extends TypeProvider, ValueProvider, ClassProvider, ExistingProvider, FactoryProvider {}
+interface NormalizedProvider extends TypeProvider, ValueProvider, ClassProvider, ExistingProvider, FactoryProvider, AsyncFactoryProvider {}
 
 /**
  * `Dependency` is used by the framework to extend DI.
  * This is internal to Angular and should not be used directly.
  */
 export class ReflectiveDependency {
-  constructor(public key: ReflectiveKey, public optional: boolean, public visibility: Self | SkipSelf | null) {}
+  constructor(
+    public key: ReflectiveKey,
+    public optional: boolean,
+    public visibility: Self | SkipSelf | Host | null,
+    /**
+     * Whether a {@link Lazy}, a {@link Getter} or the {@link lazyEntries} of a keyed multi provider
+     * are injected instead of the instance.
+     */
+    public deferred: 'lazy' | 'getter' | 'lazyEntries' | null = null
+  ) {}
 
   static fromKey(key: ReflectiveKey): ReflectiveDependency {
     return new ReflectiveDependency(key, false, null);
   }
 }
 
+/**
+ * A {@link ReflectiveDependency} assigned to a property of the instance after construction.
+ *
+ * @experimental
+ */
+export class ReflectivePropertyDependency {
+  constructor(public name: string, public dependency: ReflectiveDependency) {}
+}
+
 const _EMPTY_LIST: any[] = [];
 
 /**
@@ -65,11 +102,21 @@ export interface ResolvedReflectiveProvider {
    * Indicates if the provider is a multi-provider or a regular provider.
    */
   multiProvider: boolean;
+
+  /**
+   * Indicates if the entries of a multi-provider are appended to those of the parent injector.
+   */
+  extendsParent: boolean;
 }
 
 // tslint:disable-next-line:class-name
 export class ResolvedReflectiveProvider_ implements ResolvedReflectiveProvider {
-  constructor(public key: ReflectiveKey, public resolvedFactories: ResolvedReflectiveFactory[], public multiProvider: boolean) {}
+  constructor(
+    public key: ReflectiveKey,
+    public resolvedFactories: ResolvedReflectiveFactory[],
+    public multiProvider: boolean,
+    public extendsParent: boolean = false
+  ) {}
 
   get resolvedFactory(): ResolvedReflectiveFactory {
     return this.resolvedFactories[0];
@@ -90,7 +137,43 @@ export class ResolvedReflectiveFactory {
     /**
      * Arguments (dependencies) to the `factory` function.
      */
-    public dependencies: ReflectiveDependency[]
+    public dependencies: ReflectiveDependency[],
+    /**
+     * Whether the `factory` function returns a `Promise` which has to be awaited.
+     */
+    public isAsync: boolean = false,
+    /**
+     * The lifetime of the objects returned by the `factory` function.
+     */
+    public scope: ProviderScope = 'singleton',
+    /**
+     * Whether the `factory` function returns its only dependency, in which case the lifetime is
+     * the one of that dependency.
+     */
+    public isAlias: boolean = false,
+    /**
+     * Dependencies assigned to properties of the object returned by the `factory` function.
+     */
+    public properties: ReflectivePropertyDependency[] = _EMPTY_LIST,
+    /**
+     * The position of the objects returned by the `factory` function among the entries of a
+     * multi provider.
+     */
+    public order: MultiProviderOrder | null = null,
+    /**
+     * The key of the objects returned by the `factory` function in the `Map` of a keyed multi
+     * provider.
+     */
+    public multiKey: string | null = null,
+    /**
+     * Whether the object returned by the `factory` function is created as soon as the injector is.
+     */
+    public eager: boolean = false,
+    /**
+     * Whether the `factory` function returns a value created outside of the injector, which the
+     * injector does not destroy.
+     */
+    public isValue: boolean = false
   ) {}
 }
 
@@ -100,21 +183,106 @@ export class ResolvedReflectiveFactory {
 function resolveReflectiveFactory(provider: NormalizedProvider): ResolvedReflectiveFactory {
   let factoryFn: Function;
   let resolvedDeps: ReflectiveDependency[];
+  let isAsync = false;
+  let scope = provider.scope;
+  let isAlias = false;
+  let isValue = false;
+  let eager = provider.eager;
+  let properties: ReflectivePropertyDependency[] = _EMPTY_LIST;
   if (provider.useClass) {
     const useClass = resolveForwardRef(provider.useClass);
     factoryFn = reflector.factory(useClass);
     resolvedDeps = _dependenciesFor(useClass);
+    properties = _propertyDependenciesFor(useClass);
+    scope = scope || _injectableOption(useClass, 'scope');
+    eager = eager !== undefined ? eager : _injectableOption(useClass, 'eager');
   } else if (provider.useExisting) {
     factoryFn = (aliasInstance: any) => aliasInstance;
     resolvedDeps = [ReflectiveDependency.fromKey(ReflectiveKey.get(provider.useExisting))];
+    isAlias = true;
   } else if (provider.useFactory) {
     factoryFn = provider.useFactory;
     resolvedDeps = constructDependencies(provider.useFactory, provider.deps);
+  } else if (provider.useAsyncFactory) {
+    if (provider.eager) {
+      throw eagerAsyncProviderError(provider.provide);
+    }
+    factoryFn = provider.useAsyncFactory;
+    resolvedDeps = constructDependencies(provider.useAsyncFactory, provider.deps);
+    isAsync = true;
   } else {
     factoryFn = () => provider.useValue;
     resolvedDeps = _EMPTY_LIST;
+    isValue = true;
+  }
+  const order = _multiProviderOrder(provider);
+  const multiKey = provider.multiKey != null ? provider.multiKey : null;
+  return new ResolvedReflectiveFactory(
+    factoryFn,
+    resolvedDeps,
+    isAsync,
+    scope || 'singleton',
+    isAlias,
+    properties,
+    order,
+    multiKey,
+    !!eager,
+    isValue
+  );
+}
+
+function _isMulti(provider: NormalizedProvider): boolean {
+  return !!provider.multi || provider.multiKey != null;
+}
+
+function _multiProviderOrder(provider: NormalizedProvider): MultiProviderOrder | null {
+  return _isMulti(provider) ? getMultiProviderOrder(provider) : null;
+}
+
+/**
+ * Returns the `option` of the last {@link Injectable} annotation of `type` which sets it.
+ */
+function _injectableOption<K extends 'scope' | 'eager'>(type: any, option: K): Injectable[K] {
+  const annotations = reflector.annotations(type);
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    if (annotations[i] instanceof Injectable && annotations[i][option] != null) {
+      return annotations[i][option];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the provider of a class decorated with `@Injectable({providedIn: 'root'})`, or returns
+ * `null` when `token` is not such a class.
+ */
+export function resolveProvidedInRoot(token: any): ResolvedReflectiveProvider | null {
+  if (!isType(token)) {
+    return null;
+  }
+  const annotations = reflector.annotations(token);
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    if (annotation instanceof Injectable) {
+      if (annotation.providedIn !== 'root') {
+        return null;
+      }
+      if (annotation.useFactory) {
+        return resolveReflectiveProvider(<NormalizedProvider>{
+          provide: token,
+          useFactory: annotation.useFactory,
+          deps: annotation.deps,
+          scope: annotation.scope,
+        });
+      }
+      return resolveReflectiveProvider(<NormalizedProvider>{
+        provide: token,
+        useClass: annotation.useClass || token,
+        scope: annotation.scope,
+      });
+    }
   }
-  return new ResolvedReflectiveFactory(factoryFn, resolvedDeps);
+  return null;
 }
 
 /**
@@ -127,7 +295,8 @@ function resolveReflectiveProvider(provider: NormalizedProvider): ResolvedReflec
   return new ResolvedReflectiveProvider_(
     ReflectiveKey.get(provider.provide),
     [resolveReflectiveFactory(provider)],
-    provider.multi || false
+    _isMulti(provider),
+    (_isMulti(provider) && provider.extend) || false
   );
 }
 
@@ -136,11 +305,35 @@ function resolveReflectiveProvider(provider: NormalizedProvider): ResolvedReflec
  */
 export function resolveReflectiveProviders(providers: Provider[]): ResolvedReflectiveProvider[] {
   const normalized = _normalizeProviders(providers, []);
+  _assertUniqueMultiKeys(normalized);
   const resolved = normalized.map(resolveReflectiveProvider);
   const resolvedProviderMap = mergeResolvedReflectiveProviders(resolved, new Map());
   return Array.from(resolvedProviderMap.values());
 }
 
+/**
+ * Throws when two entries of a keyed multi provider declare the same `multiKey`.
+ */
+function _assertUniqueMultiKeys(providers: NormalizedProvider[]): void {
+  const registered = new Map<number, Map<string, NormalizedProvider>>();
+  providers.forEach(provider => {
+    if (provider.multiKey == null) {
+      return;
+    }
+    const keyId = ReflectiveKey.get(provider.provide).id;
+    let entries = registered.get(keyId);
+    if (!entries) {
+      entries = new Map<string, NormalizedProvider>();
+      registered.set(keyId, entries);
+    }
+    const existing = entries.get(provider.multiKey);
+    if (existing) {
+      throw duplicateMultiKeyError(provider.provide, provider.multiKey, existing, provider);
+    }
+    entries.set(provider.multiKey, provider);
+  });
+}
+
 /**
  * Merges a list of ResolvedProviders into a list where
  * each key is contained exactly once and multi providers
@@ -158,16 +351,25 @@ export function mergeResolvedReflectiveProviders(
         throw mixingMultiProvidersWithRegularProvidersError(existing, provider);
       }
       if (provider.multiProvider) {
+        if (isKeyedMultiProvider(provider) !== isKeyedMultiProvider(existing)) {
+          throw mixingKeyedMultiProvidersError(provider.key.token);
+        }
         for (let j = 0; j < provider.resolvedFactories.length; j++) {
           existing.resolvedFactories.push(provider.resolvedFactories[j]);
         }
+        existing.extendsParent = existing.extendsParent || provider.extendsParent;
       } else {
         normalizedProvidersMap.set(provider.key.id, provider);
       }
     } else {
       let resolvedProvider: ResolvedReflectiveProvider;
       if (provider.multiProvider) {
-        resolvedProvider = new ResolvedReflectiveProvider_(provider.key, provider.resolvedFactories.slice(), provider.multiProvider);
+        resolvedProvider = new ResolvedReflectiveProvider_(
+          provider.key,
+          provider.resolvedFactories.slice(),
+          provider.multiProvider,
+          provider.extendsParent
+        );
       } else {
         resolvedProvider = provider;
       }
@@ -177,6 +379,26 @@ export function mergeResolvedReflectiveProviders(
   return normalizedProvidersMap;
 }
 
+/**
+ * Whether `provider` is a keyed multi provider, whose value is a `Map`.
+ */
+export function isKeyedMultiProvider(provider: ResolvedReflectiveProvider): boolean {
+  return provider.resolvedFactories[0].multiKey !== null;
+}
+
+/**
+ * The named scope `provider` is bound to, or `null` for singleton and transient providers.
+ */
+export function namedScope(provider: ResolvedReflectiveProvider): string | null {
+  for (let i = 0; i < provider.resolvedFactories.length; i++) {
+    const scope = provider.resolvedFactories[i].scope;
+    if (scope !== 'singleton' && scope !== 'transient') {
+      return scope;
+    }
+  }
+  return null;
+}
+
 function _normalizeProviders(providers: Provider[], res: Provider[]): NormalizedProvider[] {
   providers.forEach(b => {
     if (b instanceof Type) {
@@ -212,6 +434,31 @@ function _dependenciesFor(typeOrFunc: any): ReflectiveDependency[] {
   return params.map(p => _extractToken(typeOrFunc, p, params));
 }
 
+function _propertyDependenciesFor(type: any): ReflectivePropertyDependency[] {
+  const propMetadata = reflector.propMetadata(type);
+  const properties: ReflectivePropertyDependency[] = [];
+  Object.keys(propMetadata).forEach(propName => {
+    const metadata = propMetadata[propName];
+    // the last `InjectProperty` wins when a base class property is redeclared.
+    let injectProperty: InjectProperty | null = null;
+    for (let i = 0; i < metadata.length; i++) {
+      if (metadata[i] instanceof InjectProperty) {
+        injectProperty = metadata[i];
+      }
+    }
+    if (!injectProperty) {
+      return;
+    }
+    const token = injectProperty.token !== undefined ? injectProperty.token : reflector.propertyType(type, propName);
+    if (token == null) {
+      throw noPropertyAnnotationError(type, propName);
+    }
+    const params = [new Inject(token)].concat(metadata.filter(m => !(m instanceof InjectProperty)));
+    properties.push(new ReflectivePropertyDependency(propName, _extractToken(type, params, [params])));
+  });
+  return properties.length ? properties : _EMPTY_LIST;
+}
+
 function _extractToken(typeOrFunc: any, metadata: any[] | any, params: any[][]): ReflectiveDependency {
   let token: any = null;
   let optional = false;
@@ -224,7 +471,7 @@ function _extractToken(typeOrFunc: any, metadata: any[] | any, params: any[][]):
     }
   }
 
-  let visibility: Self | SkipSelf | null = null;
+  let visibility: Self | SkipSelf | Host | null = null;
 
   for (let i = 0; i < metadata.length; ++i) {
     const paramMetadata = metadata[i];
@@ -235,9 +482,9 @@ function _extractToken(typeOrFunc: any, metadata: any[] | any, params: any[][]):
       token = paramMetadata['token'];
     } else if (paramMetadata instanceof Optional) {
       optional = true;
-    } else if (paramMetadata instanceof Self || paramMetadata instanceof SkipSelf) {
+    } else if (paramMetadata instanceof Self || paramMetadata instanceof SkipSelf || paramMetadata instanceof Host) {
       visibility = paramMetadata;
-    } else if (paramMetadata instanceof InjectionToken) {
+    } else if (paramMetadata instanceof InjectionToken || paramMetadata instanceof DeferredToken) {
       token = paramMetadata;
     }
   }
@@ -251,6 +498,9 @@ function _extractToken(typeOrFunc: any, metadata: any[] | any, params: any[][]):
   }
 }
 
-function _createDependency(token: any, optional: boolean, visibility: Self | SkipSelf | null): ReflectiveDependency {
+function _createDependency(token: any, optional: boolean, visibility: Self | SkipSelf | Host | null): ReflectiveDependency {
+  if (token instanceof DeferredToken) {
+    return new ReflectiveDependency(ReflectiveKey.get(resolveForwardRef(token.token)), optional, visibility, token.kind);
+  }
   return new ReflectiveDependency(ReflectiveKey.get(token), optional, visibility);
 }
@@ -0,0 +1,176 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { Injector } from './injector';
+import {
+  InjectionError,
+  ResolutionStep,
+  cyclicDependencyError,
+  multiProviderMismatchError,
+  noProviderError,
+  noProviderInHostError,
+  notKeyedMultiProviderError,
+  outOfScopeError,
+  selfViolationError,
+} from './reflective_errors';
+import { INJECTOR_KEY, SKIP_SELF } from './reflective_constants';
+import { ReflectiveInjector_ } from './reflective_injector';
+import {
+  ReflectiveDependency,
+  ResolvedReflectiveProvider,
+  isKeyedMultiProvider,
+  namedScope,
+  resolveProvidedInRoot,
+} from './reflective_provider';
+
+/**
+ * Where a dependency is looked up from, and the provider it resolves to.
+ */
+interface Resolution {
+  injector: ReflectiveInjector_;
+  provider: ResolvedReflectiveProvider;
+}
+
+/**
+ * Walks the dependencies of the providers of `injector` through the hierarchy, without
+ * instantiating anything, and returns an error for every problem found.
+ *
+ * Tokens provided past the reflective injectors by any other parent than `Injector.NULL` are
+ * assumed to be provided, as they cannot be checked without instantiating them.
+ */
+export function validateInjector(injector: ReflectiveInjector_): Error[] {
+  const validator = new DependencyValidator();
+  injector._providers.forEach(provider => validator.visit(injector, provider));
+  return validator.errors;
+}
+
+class DependencyValidator {
+  errors: Error[] = [];
+  private _visited = new Map<ReflectiveInjector_, Set<number>>();
+  private _path: ResolutionStep[] = [];
+
+  visit(injector: ReflectiveInjector_, provider: ResolvedReflectiveProvider): void {
+    const key = provider.key;
+    const index = this._path.findIndex(step => step.injector === injector && step.key === key);
+    if (index > -1) {
+      const cycle = this._path.slice(index).concat([this._path[index]]);
+      this.errors.push(cyclicDependencyError(injector, key, cycle));
+      return;
+    }
+    let visited = this._visited.get(injector);
+    if (!visited) {
+      visited = new Set<number>();
+      this._visited.set(injector, visited);
+    }
+    if (visited.has(key.id)) {
+      return;
+    }
+    visited.add(key.id);
+
+    this._path.push({ injector, key });
+    if (provider.multiProvider && provider.extendsParent) {
+      this._checkExtendedEntries(injector, provider);
+    }
+    // The scope a scoped provider is instantiated in encloses injectors unknown here.
+    const scoped = namedScope(provider) !== null;
+    provider.resolvedFactories.forEach(factory => {
+      factory.dependencies.forEach(dep => this._checkDependency(injector, dep, scoped));
+      factory.properties.forEach(prop => this._checkDependency(injector, prop.dependency, scoped));
+    });
+    this._path.pop();
+  }
+
+  private _checkDependency(requester: ReflectiveInjector_, dep: ReflectiveDependency, scoped: boolean): void {
+    if (dep.key === INJECTOR_KEY) {
+      return;
+    }
+    const resolution = this._resolve(requester, dep);
+    if (resolution === null) {
+      return;
+    }
+    if (dep.deferred === 'lazyEntries' && !isKeyedMultiProvider(resolution.provider)) {
+      this.errors.push(notKeyedMultiProviderError(dep.key));
+      return;
+    }
+    const scope = namedScope(resolution.provider);
+    if (!scoped && scope !== null && requester._enclosingScope(scope) === null) {
+      this._addPath(outOfScopeError(requester, dep.key, scope), this._path.length);
+      return;
+    }
+    if (dep.deferred === null) {
+      this.visit(resolution.injector, resolution.provider);
+      return;
+    }
+    // Deferred dependencies are resolved after construction, so they do not close any cycle.
+    const path = this._path;
+    this._path = [];
+    this.visit(resolution.injector, resolution.provider);
+    this._path = path;
+  }
+
+  /**
+   * Looks `dep` up like the injector `requester` does, reporting an error and returning `null` when
+   * it is not provided as requested, or when it is provided outside of the reflective injectors.
+   */
+  private _resolve(requester: ReflectiveInjector_, dep: ReflectiveDependency): Resolution | null {
+    const key = dep.key;
+    const found = requester._lookup(key, dep.visibility);
+    if (found.kind === 'provided') {
+      return { injector: found.injector, provider: found.injector._providers[found.index] };
+    }
+    if (found.kind === 'self') {
+      const provided = requester._lookup(key, null).kind === 'provided';
+      this._report(dep, provided ? selfViolationError(requester, key) : noProviderError(requester, key));
+      return null;
+    }
+    if (found.kind === 'host') {
+      this._report(dep, noProviderInHostError(requester, key, found.injector));
+      return null;
+    }
+    if (found.parent !== null && found.parent !== Injector.NULL) {
+      return null;
+    }
+    const provider = found.injector !== null ? resolveProvidedInRoot(key.token) : null;
+    if (provider !== null) {
+      return { injector: found.injector!, provider };
+    }
+    if (requester._fallback === null) {
+      this._report(dep, noProviderError(requester, key));
+    }
+    return null;
+  }
+
+  private _checkExtendedEntries(injector: ReflectiveInjector_, provider: ResolvedReflectiveProvider): void {
+    const found = injector._lookup(provider.key, SKIP_SELF);
+    if (found.kind !== 'provided') {
+      return;
+    }
+    const ancestor = found.injector._providers[found.index];
+    const keyed = isKeyedMultiProvider(ancestor);
+    if (!ancestor.multiProvider || keyed !== isKeyedMultiProvider(provider)) {
+      const kind = !ancestor.multiProvider ? 'regular' : keyed ? 'keyed multi' : 'unkeyed multi';
+      this._addPath(multiProviderMismatchError(injector, provider.key, kind), this._path.length - 1);
+    }
+  }
+
+  private _report(dep: ReflectiveDependency, error: InjectionError): void {
+    if (!dep.optional) {
+      this._addPath(error, this._path.length);
+    }
+  }
+
+  /**
+   * Adds the first `length` steps of the current path to the resolving path of `error`.
+   */
+  private _addPath(error: InjectionError, length: number): void {
+    for (let i = length - 1; i >= 0; i--) {
+      error.addKey(this._path[i].injector, this._path[i].key);
+    }
+    this.errors.push(error);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import { isType, ɵreflector as reflector } from '../index';
+
+/**
+ * A method of a mock created by a {@link TestInjector}, which returns `undefined` and records the
+ * arguments of its calls.
+ *
+ * Tests configure a mock by assigning its methods, or by spying on them.
+ *
+ * @experimental
+ */
+export interface MockMethod {
+  (...args: any[]): any;
+
+  /**
+   * The arguments of every call, in call order.
+   */
+  calls: any[][];
+}
+
+/**
+ * Creates the mock injected for `token` when no injector provides it.
+ *
+ * The mock of a class inherits from its prototype and replaces all its methods by
+ * {@link MockMethod}s. Any other token, like an {@link InjectionToken}, is mocked by a `Proxy`
+ * which creates a {@link MockMethod} for every property read before being assigned.
+ */
+export function createMock(token: any): any {
+  if (isType(token)) {
+    const mock = Object.create(token.prototype);
+    reflector.methodNames(token).forEach(name => (mock[name] = _createMockMethod()));
+    return mock;
+  }
+  return new Proxy(
+    {},
+    {
+      get(target: any, name: PropertyKey) {
+        // `then` stays undefined so that the mock is not mistaken for a promise.
+        if (typeof name === 'symbol' || name === 'then' || name in target) {
+          return target[name];
+        }
+        return (target[name] = _createMockMethod());
+      },
+    }
+  );
+}
+
+function _createMockMethod(): MockMethod {
+  const method = <MockMethod>function(...args: any[]) {
+    method.calls.push(args);
+  };
+  method.calls = [];
+  return method;
+}
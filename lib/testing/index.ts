@@ -0,0 +1,19 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * @module
+ * @description
+ * Entry point for the testing utilities of the dependency injection.
+ *
+ * Importing it registers a global `afterEach` hook resetting the {@link TestInjector}s after each
+ * spec, when the test framework defines `afterEach`.
+ */
+
+export { MockMethod } from './auto_mock';
+export { OverrideProvider, TestInjector, TestInjectorOptions } from './test_injector';
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import {
+  AsyncFactoryProvider,
+  ClassProvider,
+  ExistingProvider,
+  FactoryProvider,
+  InjectionToken,
+  Injector,
+  Provider,
+  ReflectiveInjector,
+  ReflectiveInjectorOptions,
+  ReflectiveKey,
+  ResolvedReflectiveProvider,
+  Type,
+  ValueProvider,
+  ɵReflectiveInjector_ as ReflectiveInjector_,
+  ɵautoMockDisabledError as autoMockDisabledError,
+  ɵglobal as global,
+  ɵtestInjectorInstantiatedError as testInjectorInstantiatedError,
+} from '../index';
+import { createMock } from './auto_mock';
+
+/**
+ * A provider replacing the providers of a token in a {@link TestInjector}, given without its
+ * `provide` property.
+ *
+ * @experimental
+ */
+export type OverrideProvider =
+  | Omit<ValueProvider, 'provide'>
+  | Omit<ClassProvider, 'provide'>
+  | Omit<ExistingProvider, 'provide'>
+  | Omit<FactoryProvider, 'provide'>
+  | Omit<AsyncFactoryProvider, 'provide'>;
+
+/**
+ * Options for creating a {@link TestInjector}.
+ *
+ * @experimental
+ */
+export interface TestInjectorOptions extends ReflectiveInjectorOptions {
+  /**
+   * Injects a mock for every token which no injector provides, instead of throwing
+   * {@link NoProviderError}. See {@link TestInjector#getMock}.
+   */
+  autoMock?: boolean;
+}
+
+/**
+ * The test injectors which have to be reset after the current spec.
+ */
+const _dirty = new Set<TestInjector>();
+
+/**
+ * @whatItDoes Creates a {@link ReflectiveInjector} from production providers, some of which are
+ * replaced for a test.
+ * @howToUse
+ * ```
+ * const testInjector = new TestInjector(APP_PROVIDERS);
+ *
+ * it('should fetch the user', () => {
+ *   testInjector.overrideProvider(Http, {useClass: FakeHttp});
+ *   testInjector.overrideValue(API_URL, 'http://localhost');
+ *
+ *   expect(testInjector.get(UserService).fetch()).toEqual(...);
+ * });
+ * ```
+ *
+ * @description
+ * An overridden token is replaced in every injector of the hierarchy which provides it, including
+ * the child injectors created from {@link TestInjector#injector}, so that the dependencies
+ * instantiated transitively get the replacement as well. The providers of a multi token are
+ * replaced as a whole: override it with an array of `multi` providers to keep an array of entries.
+ * Tokens which are not provided at all, like classes decorated with
+ * `@Injectable({providedIn: 'root'})`, are overridden in the root injector.
+ *
+ * With the `autoMock` option, the tokens which no injector provides are satisfied by mocks, see
+ * {@link TestInjector#getMock}. Normal injectors cannot do so, they always throw instead.
+ *
+ * The injector is created when it is first used, after which no more overrides are accepted.
+ * {@link TestInjector#reset} destroys it and clears the overrides and the mocks. When a global
+ * `afterEach` function is defined, as in Jasmine, Jest or Mocha, importing `injection-js/testing`
+ * registers a hook resetting every test injector after each spec. With other test frameworks,
+ * {@link TestInjector#reset} has to be called explicitly.
+ *
+ * @experimental
+ */
+export class TestInjector {
+  private _overrides = new Map<ReflectiveKey, OverrideProvider[]>();
+  private _injector: ReflectiveInjector_ | null = null;
+  private _mocks = new Map<ReflectiveKey, any>();
+
+  constructor(private _providers: Provider[], private _parent?: Injector, private _options: TestInjectorOptions = {}) {}
+
+  /**
+   * The injector created from the production providers and the overrides.
+   */
+  get injector(): ReflectiveInjector {
+    if (this._injector === null) {
+      this._injector = this._createInjector();
+      _dirty.add(this);
+    }
+    return this._injector;
+  }
+
+  /**
+   * Retrieves an instance from {@link TestInjector#injector}.
+   */
+  get<T>(token: Type<T> | InjectionToken<T>, notFoundValue?: T): T;
+  get(token: any, notFoundValue?: any): any;
+  get(token: any, notFoundValue: any = Injector.THROW_IF_NOT_FOUND): any {
+    return this.injector.get(token, notFoundValue);
+  }
+
+  /**
+   * Replaces the providers of `token` by `provider`, or by the entries of a multi provider.
+   */
+  overrideProvider(token: any, provider: OverrideProvider | OverrideProvider[]): this {
+    if (this._injector !== null) {
+      throw testInjectorInstantiatedError(token);
+    }
+    this._overrides.set(ReflectiveKey.get(token), Array.isArray(provider) ? provider : [provider]);
+    _dirty.add(this);
+    return this;
+  }
+
+  /**
+   * Replaces the providers of `token` by `value`, which is injected as is.
+   */
+  overrideValue(token: any, value: any): this {
+    return this.overrideProvider(token, { useValue: value });
+  }
+
+  /**
+   * Returns the mock injected for `token` when no injector provides it, creating it if needed so
+   * that it can be configured before it gets injected.
+   *
+   * ### Example
+   *
+   * ```typescript
+   * const testInjector = new TestInjector([UserService], undefined, {autoMock: true});
+   * testInjector.getMock(Http).get = () => Promise.resolve({name: 'Alice'});
+   *
+   * await testInjector.get(UserService).fetch(1);
+   * expect(testInjector.getMock(Http).get.calls).toEqual([['/users/1']]);
+   * ```
+   *
+   * Requires the `autoMock` option.
+   */
+  getMock<T>(token: Type<T> | InjectionToken<T>): any;
+  getMock(token: any): any;
+  getMock(token: any): any {
+    if (!this._options.autoMock) {
+      throw autoMockDisabledError(token);
+    }
+    const key = ReflectiveKey.get(token);
+    let mock = this._mocks.get(key);
+    if (mock === undefined) {
+      mock = createMock(key.token);
+      this._mocks.set(key, mock);
+      _dirty.add(this);
+    }
+    return mock;
+  }
+
+  /**
+   * Destroys the injector and clears the overrides and the mocks.
+   */
+  reset(): void {
+    _dirty.delete(this);
+    this._overrides.clear();
+    this._mocks.clear();
+    const injector = this._injector;
+    this._injector = null;
+    if (injector !== null) {
+      injector.destroy();
+    }
+  }
+
+  private _createInjector(): ReflectiveInjector_ {
+    const overrides = new Map<number, ResolvedReflectiveProvider>();
+    this._overrides.forEach((providers, key) => {
+      const resolved = ReflectiveInjector.resolve(providers.map(provider => <Provider>{ ...provider, provide: key.token }));
+      overrides.set(key.id, resolved[0]);
+    });
+    const providers = ReflectiveInjector.resolve(this._providers)
+      .filter(provider => !overrides.has(provider.key.id))
+      .concat(Array.from(overrides.values()));
+    const injector = new ReflectiveInjector_(providers, this._parent, this._options);
+    injector._overrides = overrides;
+    if (this._options.autoMock) {
+      injector._fallback = key => this.getMock(key.token);
+    }
+    return injector._initialize(this._options);
+  }
+}
+
+// Registered once when the entry point is imported, as documented by TestInjector.
+const _afterEach = (<any>global).afterEach;
+if (typeof _afterEach === 'function') {
+  _afterEach(() => Array.from(_dirty).forEach(testInjector => testInjector.reset()));
+}
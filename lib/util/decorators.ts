@@ -264,15 +264,16 @@ export function makeDecorator(
   const metaCtor = makeMetadataCtor([props]);
 
   function DecoratorFactory(this: any, objOrType: any): (cls: any) => any {
-    if (!(Reflect && Reflect.getOwnMetadata)) {
-      throw 'reflect-metadata shim is required when using class decorators';
-    }
-
+    // Creating the metadata does not need the shim, see `StandardInjectable`.
     if (this instanceof DecoratorFactory) {
       metaCtor.call(this, objOrType);
       return this as typeof DecoratorFactory;
     }
 
+    if (!(Reflect && Reflect.getOwnMetadata)) {
+      throw 'reflect-metadata shim is required when using class decorators';
+    }
+
     const annotationInstance = new (<any>DecoratorFactory)(objOrType);
     const chainAnnotation = typeof this === 'function' && Array.isArray(this.annotations) ? this.annotations : [];
     chainAnnotation.push(annotationInstance);
@@ -325,7 +326,16 @@ export function makeParamDecorator(name: string, props: ([string, any] | { [name
     (<any>ParamDecorator).annotation = annotationInstance;
     return ParamDecorator;
 
-    function ParamDecorator(cls: any, unusedKey: any, index: number): any {
+    function ParamDecorator(cls: any, key: any, index: number): any {
+      if (typeof index !== 'number') {
+        // used on a property, see `makePropDecorator`.
+        const meta = Reflect.getOwnMetadata('propMetadata', cls.constructor) || {};
+        meta[key] = (meta.hasOwnProperty(key) && meta[key]) || [];
+        meta[key].unshift(annotationInstance);
+        Reflect.defineMetadata('propMetadata', meta, cls.constructor);
+        return;
+      }
+
       const parameters: (any[] | null)[] = Reflect.getOwnMetadata('parameters', cls) || [];
 
       // there might be gaps if some in between parameters do not have annotations.
@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+/**
+ * The context passed to a standard class decorator, as defined by the TC39 decorators proposal
+ * implemented by TypeScript 5.
+ *
+ * @experimental
+ */
+export interface StandardClassDecoratorContext {
+  kind: 'class';
+  name: string | undefined;
+  metadata?: object;
+}
+
+/**
+ * The context passed to a standard class member decorator, as defined by the TC39 decorators
+ * proposal implemented by TypeScript 5.
+ *
+ * @experimental
+ */
+export interface StandardMemberDecoratorContext {
+  kind: 'method' | 'getter' | 'setter' | 'field' | 'accessor';
+  name: string | symbol;
+  static: boolean;
+  private: boolean;
+  metadata?: object;
+}
+
+/**
+ * The keys of the metadata which standard decorators store in `context.metadata`, shared by all
+ * copies of the library like the keys of `reflect-metadata`.
+ */
+export const ANNOTATIONS_METADATA = Symbol.for('injection-js:annotations');
+export const PROP_METADATA = Symbol.for('injection-js:propMetadata');
+
+/**
+ * Adds `annotation` to the annotations of the class decorated in `context`.
+ */
+export function addStandardAnnotation(context: StandardClassDecoratorContext, annotation: any): void {
+  _ownMetadata<any[]>(context, ANNOTATIONS_METADATA, () => []).push(annotation);
+}
+
+/**
+ * Adds `metadata` to the metadata of the property decorated in `context`.
+ */
+export function addStandardPropMetadata(context: StandardMemberDecoratorContext, metadata: any[]): void {
+  const propMetadata = _ownMetadata<{ [key: string]: any[] }>(context, PROP_METADATA, () => ({}));
+  const name = <string>context.name;
+  propMetadata[name] = (propMetadata.hasOwnProperty(name) ? propMetadata[name] : []).concat(metadata);
+}
+
+/**
+ * Returns the metadata stored under `key` by the standard decorators of `type` itself, excluding
+ * those of its parent classes, or `null`.
+ */
+export function getOwnStandardMetadata(type: any, key: symbol): any {
+  const symbol = _symbolMetadata();
+  if (!symbol || !Object.prototype.hasOwnProperty.call(type, symbol)) {
+    return null;
+  }
+  const metadata = type[symbol];
+  return metadata && Object.prototype.hasOwnProperty.call(metadata, key) ? metadata[key] : null;
+}
+
+/**
+ * Returns the metadata stored under `key` in `context.metadata`, which inherits the metadata of
+ * the parent class, after creating it if the class does not have its own yet.
+ */
+function _ownMetadata<T>(context: { metadata?: object }, key: symbol, create: () => T): T {
+  const metadata: any = context.metadata;
+  if (!metadata) {
+    throw new Error('Symbol.metadata is required when using standard decorators, a polyfill has to define it');
+  }
+  if (!Object.prototype.hasOwnProperty.call(metadata, key)) {
+    metadata[key] = create();
+  }
+  return metadata[key];
+}
+
+/**
+ * `Symbol.metadata`, which is defined by recent runtimes or by a polyfill. It is looked up on
+ * every use, as the polyfill may be loaded after the library.
+ */
+function _symbolMetadata(): symbol | undefined {
+  return (<any>Symbol).metadata;
+}
@@ -0,0 +1,20 @@
+import { resolve } from 'path';
+
+// The testing entry point shares the classes of the main entry point instead of bundling them.
+const main = resolve('dist/index.js');
+
+export default {
+  input: 'dist/testing/index.js',
+  external: [main],
+  output: {
+    file: 'dist/testing/testing.bundle.js',
+    format: 'umd',
+    name: 'injection-js.testing',
+    globals: {
+      [main]: 'injection-js',
+    },
+    paths: {
+      [main]: 'injection-js',
+    },
+  },
+};
@@ -6,7 +6,8 @@
  * found in the LICENSE file at https://angular.io/license
  */
 
-import { Injector } from '../lib';
+import { Inject, InjectFlags, Injector, Optional, ReflectiveInjector, Self, SkipSelf, inject } from '../lib';
+import { reflector } from '../lib/reflection/reflection';
 
 describe('Injector.NULL', () => {
   it('should throw if no arg is given', () => {
@@ -21,3 +22,195 @@ describe('Injector.NULL', () => {
     expect(Injector.NULL.get('someToken', 'notFound')).toEqual('notFound');
   });
 });
+
+describe('Injector.create', () => {
+  class Engine {}
+  class TurboEngine extends Engine {}
+  class Car {
+    constructor(public engine: Engine) {}
+  }
+
+  it('should create instances from explicit deps', () => {
+    const injector = Injector.create([{ provide: Engine, deps: [] }, { provide: Car, deps: [Engine] }]);
+
+    const car = injector.get(Car);
+    expect(car instanceof Car).toBe(true);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(injector.get(Car)).toBe(car);
+  });
+
+  it('should support all static providers', () => {
+    const injector = Injector.create({
+      providers: [
+        { provide: 'value', useValue: 'hello' },
+        { provide: 'class', useClass: TurboEngine, deps: [] },
+        { provide: 'factory', useFactory: (value: string) => `${value} world`, deps: ['value'] },
+        { provide: 'existing', useExisting: 'class' },
+        { provide: 'undefined', useValue: undefined },
+      ],
+    });
+
+    expect(injector.get('value')).toEqual('hello');
+    expect(injector.get('class') instanceof TurboEngine).toBe(true);
+    expect(injector.get('factory')).toEqual('hello world');
+    expect(injector.get('existing')).toBe(injector.get('class'));
+    expect(injector.get('undefined')).toBeUndefined();
+  });
+
+  it('should support multi providers', () => {
+    const injector = Injector.create([
+      { provide: 'strings', useValue: 'a', multi: true },
+      [{ provide: 'strings', useFactory: () => 'b', deps: [], multi: true }],
+    ]);
+
+    expect(injector.get('strings')).toEqual(['a', 'b']);
+  });
+
+  it('should throw when mixing multi and regular providers', () => {
+    expect(() => Injector.create([{ provide: 'strings', useValue: 'a', multi: true }, { provide: 'strings', useValue: 'b' }])).toThrowError(
+      'Cannot mix multi providers and regular providers, got: strings strings'
+    );
+  });
+
+  it('should support Optional, Self, SkipSelf and Inject in deps', () => {
+    const parent = Injector.create([{ provide: Engine, deps: [] }]);
+    const injector = Injector.create({
+      providers: [
+        { provide: Engine, useClass: TurboEngine, deps: [] },
+        { provide: 'optional', useFactory: (radio: any) => radio, deps: [[new Optional(), 'radio']] },
+        { provide: 'self', useFactory: (engine: Engine) => engine, deps: [[Self, Engine]] },
+        { provide: 'skipSelf', useFactory: (engine: Engine) => engine, deps: [[new SkipSelf(), Engine]] },
+        { provide: 'inject', useFactory: (engine: Engine) => engine, deps: [[new Inject(Engine)]] },
+      ],
+      parent,
+    });
+
+    expect(injector.get('optional')).toBeNull();
+    expect(injector.get('self') instanceof TurboEngine).toBe(true);
+    expect(injector.get('skipSelf')).toBe(parent.get(Engine));
+    expect(injector.get('inject')).toBe(injector.get(Engine));
+  });
+
+  it('should return itself for Injector', () => {
+    const injector = Injector.create([]);
+
+    expect(injector.get(Injector)).toBe(injector);
+  });
+
+  it('should throw with the resolution path and the injector name', () => {
+    const injector = Injector.create({ providers: [{ provide: Car, deps: [Engine] }], name: 'garage' });
+
+    expect(() => injector.get(Car)).toThrowError('No provider for Engine in garage! (Car -> Engine)');
+    expect(injector.get('missing', 'default')).toEqual('default');
+  });
+
+  it('should call the factories in an injection context', () => {
+    class Dashboard {
+      engine = inject(Engine);
+      radio = inject('radio', InjectFlags.Optional);
+    }
+    const injector = Injector.create([
+      { provide: Engine, deps: [] },
+      { provide: Dashboard, deps: [] },
+      { provide: 'car', useFactory: () => inject(Dashboard), deps: [] },
+    ]);
+
+    expect(injector.get('car')).toBe(injector.get(Dashboard));
+    expect(injector.get(Dashboard).engine).toBe(injector.get(Engine));
+    expect(injector.get(Dashboard).radio).toBe(null);
+    expect(() => inject(Engine)).toThrowError(/inject\(\) must be called from/);
+  });
+
+  it('should detect cycles', () => {
+    const injector = Injector.create([
+      { provide: 'one', useFactory: (two: any) => two, deps: ['two'] },
+      { provide: 'two', useFactory: (one: any) => one, deps: ['one'] },
+    ]);
+
+    expect(() => injector.get('one')).toThrowError('Cannot instantiate cyclic dependency! (one -> two -> one)');
+  });
+
+  it('should throw for providers without explicit deps', () => {
+    expect(() => Injector.create([<any>Engine])).toThrowError(/^Invalid static provider/);
+    expect(() => Injector.create([<any>{ provide: 'engine', useClass: Engine }])).toThrowError(
+      'Invalid static provider - only providers with useValue, useExisting, useFactory or useClass and deps are allowed, got: engine'
+    );
+  });
+
+  it('should never use the reflector', () => {
+    const spies = ['factory', 'parameters', 'annotations', 'propMetadata'].map(method => spyOn(<any>reflector, method).and.callThrough());
+
+    const injector = Injector.create([{ provide: Engine, deps: [] }, { provide: Car, deps: [Engine] }]);
+    injector.get(Car);
+
+    spies.forEach(spy => expect(spy).not.toHaveBeenCalled());
+  });
+
+  it('should use a ReflectiveInjector as parent', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([{ provide: Engine, useClass: Engine }]);
+    const injector = Injector.create({ providers: [{ provide: Car, deps: [Engine] }], parent });
+
+    expect(injector.get(Car).engine).toBe(parent.get(Engine));
+  });
+
+  it('should be the parent of a ReflectiveInjector', () => {
+    const parent = Injector.create([{ provide: Engine, deps: [] }]);
+    const injector = ReflectiveInjector.resolveAndCreate([{ provide: Car, useFactory: (e: Engine) => new Car(e), deps: [Engine] }], parent);
+
+    expect(injector.get(Car).engine).toBe(parent.get(Engine));
+    expect(() => injector.get('missing')).toThrowError('No provider for missing!');
+  });
+});
+
+describe('Injector.create with extending multi providers', () => {
+  it('should append the entries to those of the parent', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([{ provide: 'plugins', useValue: 'parent', multi: true }]);
+    const injector = Injector.create({ providers: [{ provide: 'plugins', useValue: 'child', multi: true, extend: true }], parent });
+    const replacing = Injector.create({ providers: [{ provide: 'plugins', useValue: 'child', multi: true }], parent });
+
+    expect(injector.get('plugins')).toEqual(['parent', 'child']);
+    expect(replacing.get('plugins')).toEqual(['child']);
+  });
+
+  it('should throw when the parent provides the token with a regular provider', () => {
+    const parent = Injector.create([{ provide: 'plugins', useValue: 'parent' }]);
+    const injector = Injector.create({ providers: [{ provide: 'plugins', useValue: 'child', multi: true, extend: true }], parent });
+
+    expect(() => injector.get('plugins')).toThrowError('Cannot mix multi providers and regular providers, got: plugins plugins');
+  });
+});
+
+describe('Injector.create with ordered multi providers', () => {
+  it('should sort the entries', () => {
+    const injector = Injector.create([
+      { provide: 'middleware', useValue: 'auth', multi: true, id: 'auth' },
+      { provide: 'middleware', useValue: 'log', multi: true, before: 'auth' },
+    ]);
+
+    expect(injector.get('middleware')).toEqual(['log', 'auth']);
+  });
+});
+
+describe('Injector.create with keyed multi providers', () => {
+  it('should resolve to a map of the entries by key', () => {
+    const parent = Injector.create([{ provide: 'handlers', multiKey: 'create', useValue: 'create' }]);
+    const injector = Injector.create(
+      [{ provide: 'handlers', multiKey: 'delete', useFactory: () => 'delete', deps: [], extend: true }],
+      parent
+    );
+
+    expect(Array.from(injector.get('handlers').entries())).toEqual([['create', 'create'], ['delete', 'delete']]);
+  });
+
+  it('should throw when a key is provided twice', () => {
+    expect(() =>
+      Injector.create([
+        { provide: 'handlers', multiKey: 'create', useValue: 'a' },
+        { provide: 'handlers', multiKey: 'create', useValue: 'b' },
+      ])
+    ).toThrowError(
+      "Cannot provide the key 'create' of handlers twice, got: " +
+        "{provide: 'handlers', multiKey: 'create', useValue: 'a'} and {provide: 'handlers', multiKey: 'create', useValue: 'b'}!"
+    );
+  });
+});
@@ -8,17 +8,34 @@
 
 import 'reflect-metadata';
 
+import * as v8 from 'v8';
+import * as vm from 'vm';
+
 import {
+  Getter,
+  Host,
   Inject,
+  InjectFlags,
+  InjectProperty,
   Injectable,
   InjectionToken,
   Injector,
+  InjectorObserver,
+  InjectorProfiler,
+  InstantiatedEvent,
+  Lazy,
   Optional,
   Provider,
   ReflectiveInjector,
   ReflectiveKey,
   Self,
+  SkipSelf,
   forwardRef,
+  getter,
+  inject,
+  lazy,
+  lazyEntries,
+  runInInjectionContext,
 } from '../lib';
 import { ReflectiveInjector_ } from '../lib/reflective_injector';
 import { ResolvedReflectiveProvider_ } from '../lib/reflective_provider';
@@ -76,6 +93,9 @@ class CyclicEngine {
   constructor(car: Car) {}
 }
 
+@Injectable()
+class LaterEngine {}
+
 class NoAnnotations {
   constructor(secretDependency: any) {}
 }
@@ -364,6 +384,20 @@ describe('child', () => {
     expect(engineFromChild instanceof TurboEngine).toBeTruthy();
   });
 
+  it('should resolve every provider of a large hierarchy', () => {
+    const providers = (prefix: string, count: number) =>
+      Array.from({ length: count }, (_, i) => ({ provide: `${prefix}${i}`, useValue: i }));
+    const root = ReflectiveInjector.resolveAndCreate(providers('root', 1000));
+    const child = root.resolveAndCreateChild(providers('child', 50).concat([{ provide: 'root999', useValue: -1 }]));
+
+    for (let i = 0; i < 999; i++) {
+      expect(child.get(`root${i}`)).toBe(i);
+    }
+    expect(child.get('root999')).toBe(-1);
+    expect(child.get('child49')).toBe(49);
+    expect(child.get('root1000', null)).toBe(null);
+  });
+
   it('should give access to parent', () => {
     const parent = ReflectiveInjector.resolveAndCreate([]);
     const child = parent.resolveAndCreateChild([]);
@@ -427,6 +461,2161 @@ describe('depedency resolution', () => {
   });
 });
 
+describe('lazy and getter dependencies', () => {
+  @Injectable()
+  class LazyCar {
+    constructor(@Inject(lazy(Engine)) public engine: Lazy<Engine>) {}
+  }
+
+  @Injectable()
+  class CarFactory {
+    constructor(@Inject(getter(Engine)) public engine: Getter<Engine>) {}
+  }
+
+  it('should not instantiate a lazy dependency before its value is read', () => {
+    let created = 0;
+    const injector = createInjector([LazyCar, { provide: Engine, useFactory: () => (created++, new Engine()) }]);
+
+    const car = injector.get(LazyCar);
+    expect(created).toEqual(0);
+    expect(car.engine.resolved).toBe(false);
+
+    expect(car.engine.value).toBe(injector.get(Engine));
+    expect(car.engine.value).toBe(car.engine.value);
+    expect(car.engine.resolved).toBe(true);
+    expect(created).toEqual(1);
+  });
+
+  it('should resolve the dependency on every call of a getter', () => {
+    const injector = createInjector([CarFactory, { provide: Engine, useClass: Engine, scope: 'transient' }]);
+
+    const factory = injector.get(CarFactory);
+    const engine = factory.engine();
+    expect(engine instanceof Engine).toBe(true);
+    expect(factory.engine()).not.toBe(engine);
+  });
+
+  it('should support wrappers in factory deps', () => {
+    const injector = createInjector([Engine, { provide: 'car', useFactory: (e: Lazy<Engine>) => e, deps: [lazy(Engine)] }]);
+
+    expect(injector.get('car').value).toBe(injector.get(Engine));
+  });
+
+  it('should resolve forward references', () => {
+    const injector = createInjector([
+      { provide: 'car', useFactory: (e: Getter<any>) => e, deps: [getter(forwardRef(() => LaterEngine))] },
+      forwardRef(() => LaterEngine),
+    ]);
+
+    expect(injector.get('car')() instanceof LaterEngine).toBe(true);
+  });
+
+  it('should honour @Optional', () => {
+    @Injectable()
+    class OptionalCar {
+      constructor(@Optional() @Inject(lazy(Engine)) public engine: Lazy<Engine>) {}
+    }
+    const injector = createInjector([OptionalCar]);
+
+    expect(injector.get(OptionalCar).engine.value).toBeNull();
+  });
+
+  it('should throw when reading a missing dependency', () => {
+    const injector = createInjector([LazyCar]);
+    const car = injector.get(LazyCar);
+
+    expect(() => car.engine.value).toThrowError('No provider for Engine!');
+  });
+
+  it('should honour @Self and @SkipSelf', () => {
+    @Injectable()
+    class SelfCar {
+      constructor(@Self() @Inject(lazy(Engine)) public engine: Lazy<Engine>) {}
+    }
+    @Injectable()
+    class ParentCar {
+      constructor(@SkipSelf() @Inject(getter(Engine)) public engine: Getter<Engine>) {}
+    }
+    const parent = createInjector([Engine]);
+    const child = parent.resolveAndCreateChild([SelfCar, ParentCar, { provide: Engine, useClass: TurboEngine }]);
+
+    expect(child.get(SelfCar).engine.value instanceof TurboEngine).toBe(true);
+    expect(child.get(ParentCar).engine()).toBe(parent.get(Engine));
+
+    const lonely = parent.resolveAndCreateChild([SelfCar]);
+    expect(() => lonely.get(SelfCar).engine.value).toThrowError(/No provider for Engine!/);
+  });
+
+  it('should break cycles between services', () => {
+    @Injectable()
+    class Parent {
+      constructor(@Inject(lazy(forwardRef(() => Child))) public child: Lazy<any>) {}
+    }
+    @Injectable()
+    class Child {
+      constructor(public parent: Parent) {}
+    }
+    const injector = createInjector([Parent, Child]);
+
+    const parent = injector.get(Parent);
+    expect(parent.child.value.parent).toBe(parent);
+  });
+
+  it('should still detect cycles when resolving during construction', () => {
+    @Injectable()
+    class Eager {
+      constructor(@Inject(getter(forwardRef(() => Eager))) self: Getter<any>) {
+        self();
+      }
+    }
+    const injector = createInjector([Eager]);
+
+    expect(() => injector.get(Eager)).toThrowError(/Cannot instantiate cyclic dependency! \(Eager -> Eager\)/);
+  });
+
+  it('should inject wrappers with getAsync', async () => {
+    const injector = createInjector([LazyCar, Engine]);
+
+    const car = await injector.getAsync(LazyCar);
+    expect(car.engine.value).toBe(injector.get(Engine));
+  });
+
+  it('should throw when reading a dependency after destroy', () => {
+    const injector = createInjector([LazyCar, Engine]);
+    const car = injector.get(LazyCar);
+    injector.destroy();
+
+    expect(() => car.engine.value).toThrowError('Injector has already been destroyed.');
+  });
+});
+
+describe('property injection', () => {
+  @Injectable()
+  class PropertyCar {
+    @InjectProperty() engine!: Engine;
+    @InjectProperty('wheels') wheels!: number;
+  }
+
+  it('should populate decorated properties after construction', () => {
+    let engineInConstructor: any = 'not read';
+    @Injectable()
+    class InspectingCar {
+      @InjectProperty() engine!: Engine;
+
+      constructor() {
+        engineInConstructor = this.engine;
+      }
+    }
+    const injector = createInjector([InspectingCar, PropertyCar, Engine, { provide: 'wheels', useValue: 4 }]);
+
+    const car = injector.get(PropertyCar);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.wheels).toEqual(4);
+
+    expect(injector.get(InspectingCar).engine).toBe(injector.get(Engine));
+    expect(engineInConstructor).toBeUndefined();
+  });
+
+  it('should throw when a property dependency is missing', () => {
+    const injector = createInjector([PropertyCar, { provide: 'wheels', useValue: 4 }]);
+
+    expect(() => injector.get(PropertyCar)).toThrowError('No provider for Engine! (PropertyCar -> Engine)');
+  });
+
+  it('should throw when the token of a property cannot be determined', () => {
+    @Injectable()
+    class UntypedCar {
+      @InjectProperty() engine: any;
+    }
+
+    expect(() => createInjector([UntypedCar])).toThrowError(/Cannot resolve the token of property 'engine' of 'UntypedCar'/);
+  });
+
+  it('should support @Optional properties', () => {
+    @Injectable()
+    class OptionalCar {
+      @InjectProperty() @Optional() engine!: Engine;
+    }
+    const injector = createInjector([OptionalCar]);
+
+    expect(injector.get(OptionalCar).engine).toBeNull();
+  });
+
+  it('should support @Self and @SkipSelf properties', () => {
+    @Injectable()
+    class VisibilityCar {
+      @InjectProperty() @Self() own!: Engine;
+      @InjectProperty(Engine) @SkipSelf() inherited!: Engine;
+    }
+    const parent = createInjector([Engine]);
+    const child = parent.resolveAndCreateChild([VisibilityCar, { provide: Engine, useClass: TurboEngine }]);
+
+    const car = child.get(VisibilityCar);
+    expect(car.own instanceof TurboEngine).toBe(true);
+    expect(car.inherited).toBe(parent.get(Engine));
+
+    const lonely = parent.resolveAndCreateChild([VisibilityCar]);
+    expect(() => lonely.get(VisibilityCar)).toThrowError(/No provider for Engine!/);
+  });
+
+  it('should inherit property injections from base classes', () => {
+    @Injectable()
+    class Base {
+      @InjectProperty() engine!: Engine;
+    }
+    @Injectable()
+    class Derived extends Base {
+      @InjectProperty() dashboard!: Dashboard;
+    }
+    const injector = createInjector([Derived, Engine, Dashboard, DashboardSoftware]);
+
+    const car = injector.get(Derived);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.dashboard).toBe(injector.get(Dashboard));
+  });
+
+  it('should let derived classes override inherited property tokens', () => {
+    @Injectable()
+    class Base {
+      @InjectProperty() engine!: Engine;
+    }
+    @Injectable()
+    class Derived extends Base {
+      @InjectProperty(TurboEngine) engine!: Engine;
+    }
+    const injector = createInjector([Derived, Engine, TurboEngine]);
+
+    expect(injector.get(Derived).engine instanceof TurboEngine).toBe(true);
+  });
+
+  it('should support lazy properties', () => {
+    @Injectable()
+    class LazyPropertyCar {
+      @InjectProperty(lazy(Engine)) engine!: Lazy<Engine>;
+    }
+    const injector = createInjector([LazyPropertyCar, Engine]);
+
+    expect(injector.get(LazyPropertyCar).engine.value).toBe(injector.get(Engine));
+  });
+
+  it('should populate properties with getAsync', async () => {
+    const injector = createInjector([
+      PropertyCar,
+      { provide: Engine, useAsyncFactory: () => Promise.resolve(new Engine()) },
+      { provide: 'wheels', useValue: 4 },
+    ]);
+
+    const car = await injector.getAsync(PropertyCar);
+    expect(car.engine).toBe(await injector.getAsync(Engine));
+    expect(car.wheels).toEqual(4);
+  });
+});
+
+describe('host injectors', () => {
+  @Injectable()
+  class HostCar {
+    constructor(@Host() public engine: Engine) {}
+  }
+
+  it('should find dependencies up to the nearest host injector', () => {
+    const host = createInjector([Engine]).resolveAndCreateChild([{ provide: Engine, useClass: TurboEngine }], { host: true });
+    const child = host.resolveAndCreateChild([HostCar]);
+
+    expect(child.get(HostCar).engine).toBe(host.get(Engine));
+  });
+
+  it('should not look past the host injector', () => {
+    const root = createInjector([Engine]);
+    const host = root.resolveAndCreateChild([], { host: true, name: 'Garage' });
+    const child = host.resolveAndCreateChild([HostCar]);
+
+    expect(() => child.get(HostCar)).toThrowError('No provider for Engine within host Garage! (HostCar -> Engine)');
+  });
+
+  it('should name unnamed host injectors by their providers', () => {
+    const host = createInjector([]).resolveAndCreateChild([HostCar], { host: true });
+
+    expect(() => host.get(HostCar)).toThrowError(/^No provider for Engine within host ReflectiveInjector\(providers: \[ "HostCar" \]\)!/);
+  });
+
+  it('should search the whole hierarchy without a host injector', () => {
+    const root = createInjector([Engine]);
+    const child = root.resolveAndCreateChild([]).resolveAndCreateChild([HostCar]);
+
+    expect(child.get(HostCar).engine).toBe(root.get(Engine));
+  });
+
+  it('should support @Optional', () => {
+    @Injectable()
+    class OptionalHostCar {
+      constructor(@Optional() @Host() public engine: Engine) {}
+    }
+    const host = createInjector([Engine]).resolveAndCreateChild([OptionalHostCar], { host: true });
+
+    expect(host.get(OptionalHostCar).engine).toBeNull();
+  });
+
+  it('should stop at host injectors created with fromResolvedProviders', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([Engine]);
+    const host = ReflectiveInjector.fromResolvedProviders(ReflectiveInjector.resolve([HostCar]), parent, { host: true });
+
+    expect(host.name).toBeNull();
+    expect(() => host.get(HostCar)).toThrowError(/No provider for Engine within host/);
+  });
+
+  it('should apply to getAsync', async () => {
+    const root = createInjector([Engine]);
+    const host = root.resolveAndCreateChild([], { host: true, name: 'Garage' });
+    const child = host.resolveAndCreateChild([HostCar]);
+
+    await expectAsync(child.getAsync(HostCar)).toBeRejectedWithError('No provider for Engine within host Garage! (HostCar -> Engine)');
+  });
+});
+
+describe('providedIn root', () => {
+  @Injectable({ providedIn: 'root' })
+  class RootService {}
+
+  @Injectable({ providedIn: 'root' })
+  class RootConsumer {
+    constructor(public service: RootService) {}
+  }
+
+  it('should create root-provided classes without a provider', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([]);
+
+    const consumer = injector.get(RootConsumer);
+    expect(consumer instanceof RootConsumer).toBe(true);
+    expect(consumer.service).toBe(injector.get(RootService));
+  });
+
+  it('should create root-provided classes in the root injector only', () => {
+    const root = ReflectiveInjector.resolveAndCreate([]);
+    const first = root.resolveAndCreateChild([]);
+    const second = root.resolveAndCreateChild([]).resolveAndCreateChild([]);
+
+    const service = first.get(RootService);
+    expect(second.get(RootService)).toBe(service);
+    expect(root.get(RootService)).toBe(service);
+  });
+
+  it('should prefer explicit providers', () => {
+    class FakeService {}
+    const root = ReflectiveInjector.resolveAndCreate([{ provide: RootService, useClass: FakeService }]);
+    const child = root.resolveAndCreateChild([{ provide: RootService, useValue: 'child' }]);
+
+    expect(root.get(RootService) instanceof FakeService).toBe(true);
+    expect(child.get(RootService)).toEqual('child');
+  });
+
+  it('should prefer providers of a non-reflective parent', () => {
+    const parent = <Injector>{ get: (token: any, notFoundValue?: any) => (token === RootService ? 'parent' : notFoundValue) };
+    const injector = ReflectiveInjector.resolveAndCreate([], parent);
+
+    expect(injector.get(RootService)).toEqual('parent');
+    expect(injector.get(RootConsumer).service).toEqual('parent');
+  });
+
+  it('should support useClass', () => {
+    class RealLogger {}
+    @Injectable({ providedIn: 'root', useClass: RealLogger })
+    abstract class Logger {}
+    const injector = ReflectiveInjector.resolveAndCreate([]);
+
+    expect(injector.get(Logger) instanceof RealLogger).toBe(true);
+    expect(injector.get(Logger)).toBe(injector.get(Logger));
+  });
+
+  it('should support useFactory with deps', () => {
+    @Injectable({ providedIn: 'root', useFactory: (service: RootService) => ({ service }), deps: [RootService] })
+    class Config {}
+    const injector = ReflectiveInjector.resolveAndCreate([]);
+
+    expect(injector.get(Config).service).toBe(injector.get(RootService));
+  });
+
+  it('should not self-register classes without providedIn', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([]);
+
+    expect(() => injector.get(Engine)).toThrowError('No provider for Engine!');
+    expect(injector.get(Engine, null)).toBeNull();
+  });
+
+  it('should not self-register for @Self dependencies', () => {
+    @Injectable()
+    class SelfConsumer {
+      constructor(@Self() public service: RootService) {}
+    }
+    const injector = ReflectiveInjector.resolveAndCreate([]).resolveAndCreateChild([SelfConsumer]);
+
+    expect(() => injector.get(SelfConsumer)).toThrowError(/No provider for RootService!/);
+  });
+
+  it('should honour the scope of the class', () => {
+    @Injectable({ providedIn: 'root', scope: 'transient' })
+    class TransientRootService {}
+    const injector = ReflectiveInjector.resolveAndCreate([]);
+
+    expect(injector.get(TransientRootService)).not.toBe(injector.get(TransientRootService));
+  });
+
+  it('should destroy root-provided instances with the root injector', () => {
+    let destroyed = 0;
+    @Injectable({ providedIn: 'root' })
+    class Disposable {
+      ngOnDestroy() {
+        destroyed++;
+      }
+    }
+    const root = ReflectiveInjector.resolveAndCreate([]);
+    root.resolveAndCreateChild([]).get(Disposable);
+
+    root.destroy();
+    expect(destroyed).toEqual(1);
+  });
+
+  it('should create root-provided classes with getAsync', async () => {
+    const root = ReflectiveInjector.resolveAndCreate([]);
+    const child = root.resolveAndCreateChild([]);
+
+    const consumer = await child.getAsync(RootConsumer);
+    expect(consumer).toBe(root.get(RootConsumer));
+    expect(consumer.service).toBe(root.get(RootService));
+  });
+});
+
+describe('inject()', () => {
+  @Injectable()
+  class InjectingCar {
+    engine = inject(Engine);
+    dashboard = inject(Dashboard, InjectFlags.Optional);
+  }
+
+  it('should inject in constructors', () => {
+    const injector = createInjector([InjectingCar, Engine]);
+
+    const car = injector.get(InjectingCar);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.dashboard).toBeNull();
+  });
+
+  it('should inject in factories', () => {
+    const injector = createInjector([Engine, { provide: 'car', useFactory: () => new Car(inject(Engine)) }]);
+
+    expect(injector.get('car').engine).toBe(injector.get(Engine));
+  });
+
+  it('should inject from the injector of the provider', () => {
+    const parent = createInjector([InjectingCar, Engine]);
+    const child = parent.resolveAndCreateChild([{ provide: Engine, useClass: TurboEngine }]);
+
+    expect(child.get(InjectingCar).engine).toBe(parent.get(Engine));
+  });
+
+  it('should support @Self, @SkipSelf and @Host flags', () => {
+    const parent = createInjector([Engine]);
+    const child = parent.resolveAndCreateChild(
+      [
+        { provide: TurboEngine, useFactory: () => inject(Engine, InjectFlags.SkipSelf) },
+        { provide: 'self', useFactory: () => inject(Engine, InjectFlags.Self | InjectFlags.Optional) },
+        { provide: 'host', useFactory: () => inject(Engine, InjectFlags.Host | InjectFlags.Optional) },
+      ],
+      { host: true }
+    );
+
+    expect(child.get(TurboEngine)).toBe(parent.get(Engine));
+    expect(child.get('self')).toBeNull();
+    expect(child.get('host')).toBeNull();
+  });
+
+  it('should throw outside of an injection context', () => {
+    const injector = createInjector([InjectingCar, Engine]);
+    injector.get(InjectingCar);
+
+    expect(() => inject(Engine)).toThrowError(
+      'Cannot inject Engine outside of an injection context! ' +
+        'inject() must be called from a constructor, a factory function or runInInjectionContext().'
+    );
+  });
+
+  it('should restore the context when a factory throws', () => {
+    const injector = createInjector([
+      Engine,
+      { provide: 'broken', useFactory: () => new BrokenEngine() },
+      { provide: 'outer', useFactory: () => [tryGet(() => injector.get('broken')), inject(Engine)] },
+    ]);
+    function tryGet(fn: () => any): any {
+      try {
+        return fn();
+      } catch (e) {
+        return e;
+      }
+    }
+
+    const [error, engine] = injector.get('outer');
+    expect(error.message).toMatch(/Broken Engine/);
+    expect(engine).toBe(injector.get(Engine));
+    expect(() => inject(Engine)).toThrowError(/outside of an injection context/);
+  });
+
+  it('should restore the previous context of nested injectors', () => {
+    const other = createInjector([{ provide: Engine, useClass: TurboEngine }]);
+    const injector = createInjector([Engine, { provide: 'pair', useFactory: () => [other.get(Engine), inject(Engine)] }]);
+
+    const [otherEngine, engine] = injector.get('pair');
+    expect(otherEngine instanceof TurboEngine).toBe(true);
+    expect(engine).toBe(injector.get(Engine));
+  });
+
+  it('should inject in async factories', async () => {
+    const injector = createInjector([Engine, { provide: 'engine', useAsyncFactory: () => Promise.resolve(inject(Engine)) }]);
+
+    expect(await injector.getAsync('engine')).toBe(injector.get(Engine));
+  });
+
+  describe('runInInjectionContext', () => {
+    it('should run the function in the context of the injector', () => {
+      const injector = createInjector([Engine]);
+
+      expect(runInInjectionContext(injector, () => inject(Engine))).toBe(injector.get(Engine));
+    });
+
+    it('should support injectors other than ReflectiveInjector', () => {
+      const injector = <Injector>{ get: (token: any, notFoundValue?: any) => (token === Engine ? 'engine' : notFoundValue) };
+
+      expect(runInInjectionContext(injector, () => inject(Engine))).toEqual('engine');
+      expect(runInInjectionContext(injector, () => inject(Dashboard, InjectFlags.Optional))).toBeNull();
+    });
+
+    it('should restore the context when the function throws', () => {
+      const injector = createInjector([Engine]);
+
+      expect(() =>
+        runInInjectionContext(injector, () => {
+          throw new Error('failed');
+        })
+      ).toThrowError('failed');
+      expect(() => inject(Engine)).toThrowError(/outside of an injection context/);
+    });
+  });
+});
+
+describe('extending multi providers', () => {
+  it('should append the entries of a child to those of its ancestors', () => {
+    const root = createInjector([{ provide: 'plugins', useValue: 'root', multi: true }]);
+    const child = root.resolveAndCreateChild([{ provide: 'plugins', useValue: 'child', multi: true, extend: true }]);
+    const grandChild = child.resolveAndCreateChild([
+      { provide: 'plugins', useValue: 'grandChild1', multi: true, extend: true },
+      { provide: 'plugins', useValue: 'grandChild2', multi: true },
+    ]);
+
+    expect(root.get('plugins')).toEqual(['root']);
+    expect(child.get('plugins')).toEqual(['root', 'child']);
+    expect(grandChild.get('plugins')).toEqual(['root', 'child', 'grandChild1', 'grandChild2']);
+  });
+
+  it('should throw when the ancestors provide the token with a regular provider', async () => {
+    const root = createInjector([{ provide: 'plugins', useValue: 'root' }]);
+    const child = root.resolveAndCreateChild([{ provide: 'plugins', useValue: 'child', multi: true, extend: true }]);
+    const keyed = root.resolveAndCreateChild([{ provide: 'plugins', useValue: 'child', multiKey: 'child', extend: true }]);
+    const message = 'Cannot extend the entries of plugins, the ancestors provide it with regular providers!';
+
+    expect(() => child.get('plugins')).toThrowError(message);
+    expect(() => keyed.get('plugins')).toThrowError(message);
+    await expectAsync(child.getAsync('plugins')).toBeRejectedWithError(message);
+  });
+
+  it('should replace the entries of the ancestors without extend', () => {
+    const root = createInjector([{ provide: 'plugins', useValue: 'root', multi: true }]);
+    const child = root.resolveAndCreateChild([{ provide: 'plugins', useValue: 'child', multi: true }]);
+    const grandChild = child.resolveAndCreateChild([{ provide: 'plugins', useValue: 'grandChild', multi: true, extend: true }]);
+
+    expect(child.get('plugins')).toEqual(['child']);
+    expect(grandChild.get('plugins')).toEqual(['child', 'grandChild']);
+  });
+
+  it('should skip injectors without entries', () => {
+    const root = createInjector([{ provide: 'plugins', useValue: 'root', multi: true }]);
+    const child = root
+      .resolveAndCreateChild([])
+      .resolveAndCreateChild([{ provide: 'plugins', useValue: 'child', multi: true, extend: true }]);
+
+    expect(child.get('plugins')).toEqual(['root', 'child']);
+    expect(createInjector([{ provide: 'plugins', useValue: 'alone', multi: true, extend: true }]).get('plugins')).toEqual(['alone']);
+  });
+
+  it('should share the instances of the ancestors', () => {
+    const root = createInjector([{ provide: 'plugins', useClass: Engine, multi: true }]);
+    const child = root.resolveAndCreateChild([{ provide: 'plugins', useClass: TurboEngine, multi: true, extend: true }]);
+
+    const plugins = child.get('plugins');
+    expect(plugins[0]).toBe(root.get('plugins')[0]);
+    expect(plugins[1] instanceof TurboEngine).toBe(true);
+  });
+
+  it('should only destroy the own entries', () => {
+    const destroyed: string[] = [];
+    class Plugin {
+      constructor(private name: string) {}
+      ngOnDestroy() {
+        destroyed.push(this.name);
+      }
+    }
+    const root = createInjector([{ provide: 'plugins', useFactory: () => new Plugin('root'), multi: true }]);
+    const child = root.resolveAndCreateChild([{ provide: 'plugins', useFactory: () => new Plugin('child'), multi: true, extend: true }]);
+    child.get('plugins');
+
+    child.destroy();
+    expect(destroyed).toEqual(['child']);
+    root.destroy();
+    expect(destroyed).toEqual(['child', 'root']);
+  });
+
+  it('should support getAsync', async () => {
+    const root = createInjector([{ provide: 'plugins', useAsyncFactory: () => Promise.resolve('root'), multi: true }]);
+    const child = root.resolveAndCreateChild([{ provide: 'plugins', useValue: 'child', multi: true, extend: true }]);
+
+    expect(await child.getAsync('plugins')).toEqual(['root', 'child']);
+  });
+});
+
+describe('ordered multi providers', () => {
+  it('should sort entries by their before and after constraints', () => {
+    const injector = createInjector([
+      { provide: 'middleware', useValue: 'compress', multi: true, id: 'compress', after: ['auth', 'log'] },
+      { provide: 'middleware', useValue: 'auth', multi: true, id: 'auth' },
+      { provide: 'middleware', useValue: 'log', multi: true, id: 'log', before: 'auth' },
+    ]);
+
+    expect(injector.get('middleware')).toEqual(['log', 'auth', 'compress']);
+  });
+
+  it('should sort unconstrained entries by priority, then registration order', () => {
+    const injector = createInjector([
+      { provide: 'middleware', useValue: 'a', multi: true },
+      { provide: 'middleware', useValue: 'b', multi: true, priority: -1 },
+      { provide: 'middleware', useValue: 'c', multi: true, priority: 10 },
+      { provide: 'middleware', useValue: 'd', multi: true },
+    ]);
+
+    expect(injector.get('middleware')).toEqual(['c', 'a', 'd', 'b']);
+  });
+
+  it('should ignore constraints on missing ids', () => {
+    const injector = createInjector([
+      { provide: 'middleware', useValue: 'a', multi: true, after: 'missing' },
+      { provide: 'middleware', useValue: 'b', multi: true, before: 'missing' },
+    ]);
+
+    expect(injector.get('middleware')).toEqual(['a', 'b']);
+  });
+
+  it('should throw for cyclic constraints', () => {
+    const injector = createInjector([
+      { provide: 'middleware', useValue: 'a', multi: true, id: 'a', before: 'b' },
+      { provide: 'middleware', useValue: 'b', multi: true, id: 'b', before: 'c' },
+      { provide: 'middleware', useValue: 'c', multi: true, id: 'c', before: 'a' },
+      { provide: 'middleware', useValue: 'd', multi: true, id: 'd', after: 'c' },
+    ]);
+
+    expect(() => injector.get('middleware')).toThrowError(
+      'Cannot order the multi providers of middleware, their constraints are cyclic! (a -> b -> c -> a)'
+    );
+  });
+
+  it('should throw for duplicate ids', () => {
+    const injector = createInjector([
+      { provide: 'middleware', useValue: 'a', multi: true, id: 'auth' },
+      { provide: 'middleware', useValue: 'b', multi: true, id: 'auth', priority: 1 },
+    ]);
+
+    expect(() => injector.get('middleware')).toThrowError(
+      "Cannot order the multi providers of middleware, the id 'auth' is declared twice!"
+    );
+  });
+
+  it('should sort across extended injectors', () => {
+    const root = createInjector([
+      { provide: 'middleware', useValue: 'auth', multi: true, id: 'auth' },
+      { provide: 'middleware', useValue: 'compress', multi: true, id: 'compress', priority: -1 },
+    ]);
+    const child = root.resolveAndCreateChild([
+      { provide: 'middleware', useValue: 'log', multi: true, extend: true, id: 'log', before: 'auth' },
+    ]);
+    const grandChild = child.resolveAndCreateChild([
+      { provide: 'middleware', useValue: 'cache', multi: true, extend: true, after: 'log', before: 'auth' },
+    ]);
+
+    expect(root.get('middleware')).toEqual(['auth', 'compress']);
+    expect(child.get('middleware')).toEqual(['log', 'auth', 'compress']);
+    expect(grandChild.get('middleware')).toEqual(['log', 'cache', 'auth', 'compress']);
+  });
+
+  it('should only destroy the own entries of sorted extending providers', () => {
+    const destroyed: string[] = [];
+    class Plugin {
+      constructor(private name: string) {}
+      ngOnDestroy() {
+        destroyed.push(this.name);
+      }
+    }
+    const root = createInjector([{ provide: 'plugins', useFactory: () => new Plugin('root'), multi: true }]);
+    const child = root.resolveAndCreateChild([
+      { provide: 'plugins', useFactory: () => new Plugin('child'), multi: true, extend: true, priority: 1 },
+    ]);
+    expect(child.get('plugins').map((p: any) => p.name)).toEqual(['child', 'root']);
+
+    child.destroy();
+    expect(destroyed).toEqual(['child']);
+  });
+});
+
+describe('keyed multi providers', () => {
+  class CreateHandler {}
+  class DeleteHandler {}
+  class InsertHandler {}
+
+  it('should resolve to a map of the entries by key', () => {
+    const injector = createInjector([
+      { provide: 'handlers', multiKey: 'create', useClass: CreateHandler },
+      { provide: 'handlers', multiKey: 'delete', useClass: DeleteHandler },
+    ]);
+
+    const handlers = injector.get('handlers');
+    expect(handlers instanceof Map).toBe(true);
+    expect(Array.from(handlers.keys())).toEqual(['create', 'delete']);
+    expect(handlers.get('create') instanceof CreateHandler).toBe(true);
+    expect(handlers.get('delete') instanceof DeleteHandler).toBe(true);
+    expect(injector.get('handlers')).toBe(handlers);
+  });
+
+  it('should throw when a key is provided twice', () => {
+    expect(() =>
+      createInjector([
+        { provide: 'handlers', multiKey: 'create', useClass: CreateHandler },
+        { provide: 'handlers', multiKey: 'create', useClass: InsertHandler },
+      ])
+    ).toThrowError(
+      "Cannot provide the key 'create' of handlers twice, got: " +
+        "{provide: 'handlers', multiKey: 'create', useClass: CreateHandler} and " +
+        "{provide: 'handlers', multiKey: 'create', useClass: InsertHandler}!"
+    );
+  });
+
+  it('should throw when mixing keyed and unkeyed multi providers', () => {
+    expect(() =>
+      createInjector([
+        { provide: 'handlers', multiKey: 'create', useClass: CreateHandler },
+        { provide: 'handlers', useClass: DeleteHandler, multi: true },
+      ])
+    ).toThrowError('Cannot mix keyed and unkeyed multi providers of handlers!');
+  });
+
+  it('should order the entries', () => {
+    const injector = createInjector([
+      { provide: 'handlers', multiKey: 'create', useValue: 'c' },
+      { provide: 'handlers', multiKey: 'delete', useValue: 'd', priority: 1 },
+    ]);
+
+    expect(Array.from(injector.get('handlers').keys())).toEqual(['delete', 'create']);
+  });
+
+  it('should extend the entries of the ancestors, replacing those with the same key', () => {
+    const parent = createInjector([
+      { provide: 'handlers', multiKey: 'create', useValue: 'create' },
+      { provide: 'handlers', multiKey: 'delete', useValue: 'delete' },
+    ]);
+    const child = parent.resolveAndCreateChild([
+      { provide: 'handlers', multiKey: 'insert', useValue: 'insert', extend: true },
+      { provide: 'handlers', multiKey: 'create', useValue: 'upsert', extend: true },
+    ]);
+
+    expect(Array.from(child.get('handlers').entries())).toEqual([['create', 'upsert'], ['delete', 'delete'], ['insert', 'insert']]);
+    expect(parent.get('handlers').get('create')).toEqual('create');
+  });
+
+  it('should resolve the map asynchronously', done => {
+    const injector = createInjector([{ provide: 'handlers', multiKey: 'create', useAsyncFactory: () => Promise.resolve('created') }]);
+
+    injector.getAsync('handlers').then(handlers => {
+      expect(handlers.get('create')).toEqual('created');
+      done();
+    });
+  });
+
+  describe('lazyEntries', () => {
+    @Injectable()
+    class CommandBus {
+      constructor(@Inject(lazyEntries('handlers')) public handlers: Map<string, Lazy<any>>) {}
+    }
+
+    it('should only instantiate the entries which are read', () => {
+      const created: string[] = [];
+      const injector = createInjector([
+        CommandBus,
+        { provide: 'handlers', multiKey: 'create', useFactory: () => (created.push('create'), new CreateHandler()) },
+        { provide: 'handlers', multiKey: 'delete', useFactory: () => (created.push('delete'), new DeleteHandler()) },
+      ]);
+
+      const bus = injector.get(CommandBus);
+      expect(Array.from(bus.handlers.keys())).toEqual(['create', 'delete']);
+      expect(created).toEqual([]);
+
+      const handler = bus.handlers.get('delete')!.value;
+      expect(handler instanceof DeleteHandler).toBe(true);
+      expect(created).toEqual(['delete']);
+
+      expect(injector.get('handlers').get('delete')).toBe(handler);
+      expect(created).toEqual(['delete', 'create']);
+    });
+
+    it('should reuse the entries of an instantiated map', () => {
+      const injector = createInjector([CommandBus, { provide: 'handlers', multiKey: 'create', useClass: CreateHandler }]);
+
+      const handlers = injector.get('handlers');
+      expect(injector.get(CommandBus).handlers.get('create')!.value).toBe(handlers.get('create'));
+    });
+
+    it('should include the lazy entries of the ancestors', () => {
+      const parent = createInjector([{ provide: 'handlers', multiKey: 'create', useClass: CreateHandler }]);
+      const child = parent.resolveAndCreateChild([
+        CommandBus,
+        { provide: 'handlers', multiKey: 'delete', useClass: DeleteHandler, extend: true },
+      ]);
+
+      const handlers = child.get(CommandBus).handlers;
+      expect(Array.from(handlers.keys())).toEqual(['create', 'delete']);
+      expect(handlers.get('create')!.value).toBe(parent.get('handlers').get('create'));
+    });
+
+    it('should throw for tokens not provided by keyed multi providers', () => {
+      const injector = createInjector([CommandBus, { provide: 'handlers', useValue: 'create', multi: true }]);
+
+      expect(() => injector.get(CommandBus)).toThrowError(
+        'Cannot inject the lazy entries of handlers, it is not provided by keyed multi providers!'
+      );
+    });
+  });
+});
+
+describe('validate', () => {
+  @Injectable()
+  class Garage {
+    constructor(public car: Car, @Optional() public software: DashboardSoftware) {}
+  }
+
+  it('should not throw nor instantiate anything when all dependencies are provided', () => {
+    let created = 0;
+    const injector = createInjector([Garage, Car, { provide: Engine, useFactory: () => (created++, new Engine()) }]);
+
+    injector.validate();
+    expect(created).toEqual(0);
+  });
+
+  it('should report all missing tokens at once with their dependency path', () => {
+    const injector = createInjector([Garage, Car, { provide: 'service', useFactory: (dep: any) => dep, deps: ['config'] }]);
+
+    try {
+      injector.validate();
+      fail('expected validate() to throw');
+    } catch (e) {
+      expect(e.errors.map((error: Error) => error.message)).toEqual([
+        'No provider for Engine! (Garage -> Car -> Engine)',
+        'No provider for config! (service -> config)',
+      ]);
+      expect(e.message).toContain('Found 2 problem(s) in the providers of');
+      expect(e.message).toContain('\n  - No provider for Engine! (Garage -> Car -> Engine)');
+    }
+  });
+
+  it('should report cycles, except those broken by deferred dependencies', () => {
+    @Injectable()
+    class LazyCar {
+      constructor(@Inject(lazy('lazyCar')) public self: Lazy<LazyCar>) {}
+    }
+    const injector = createInjector([
+      { provide: 'lazyCar', useClass: LazyCar },
+      { provide: 'one', useFactory: (two: any) => two, deps: ['two'] },
+      { provide: 'two', useFactory: (one: any) => one, deps: ['one'] },
+    ]);
+
+    expect(() => injector.validate()).toThrowError(/problem\(s\)[^]*Cannot instantiate cyclic dependency! \(one -> two -> one\)$/);
+  });
+
+  it('should report @Self() dependencies provided by an ancestor only', () => {
+    @Injectable()
+    class SelfCar {
+      constructor(@Self() public engine: Engine) {}
+    }
+    const parent = createInjector([Engine]);
+    const child = parent.resolveAndCreateChild([SelfCar]);
+
+    expect(() => child.validate()).toThrowError(
+      /No provider for Engine in the injector itself, it is only provided by an ancestor! \(SelfCar -> Engine\)/
+    );
+  });
+
+  it('should report @Host() dependencies not provided within the host', () => {
+    @Injectable()
+    class HostCar {
+      constructor(@Host() public engine: Engine) {}
+    }
+    const parent = createInjector([Engine]);
+    const host = parent.resolveAndCreateChild([], { host: true, name: 'Garage' });
+    const child = host.resolveAndCreateChild([HostCar]);
+
+    expect(() => child.validate()).toThrowError(/No provider for Engine within host Garage! \(HostCar -> Engine\)/);
+  });
+
+  it('should report multi providers extending incompatible providers', () => {
+    const parent = createInjector([{ provide: 'plugins', useValue: 'a' }, { provide: 'handlers', useValue: 'a', multi: true }]);
+    const child = parent.resolveAndCreateChild([
+      { provide: 'plugins', useValue: 'b', multi: true, extend: true },
+      { provide: 'handlers', useValue: 'b', multiKey: 'b', extend: true },
+    ]);
+
+    try {
+      child.validate();
+      fail('expected validate() to throw');
+    } catch (e) {
+      expect(e.errors.map((error: Error) => error.message)).toEqual([
+        'Cannot extend the entries of plugins, the ancestors provide it with regular providers!',
+        'Cannot extend the entries of handlers, the ancestors provide it with unkeyed multi providers!',
+      ]);
+    }
+  });
+
+  it('should validate the dependencies of classes provided in root', () => {
+    @Injectable({ providedIn: 'root' })
+    class Fleet {
+      constructor(public car: Car) {}
+    }
+    @Injectable()
+    class Depot {
+      constructor(public fleet: Fleet) {}
+    }
+    const injector = createInjector([Depot]);
+
+    expect(() => injector.validate()).toThrowError(/No provider for Car! \(Depot -> Fleet -> Car\)/);
+  });
+
+  it('should report the dependencies bound to a scope not enclosing them', () => {
+    const injector = createInjector([
+      { provide: 'user', useFactory: () => 'user', scope: 'request' },
+      { provide: 'handler', useFactory: (user: any) => user, deps: ['user'], scope: 'request' },
+      { provide: 'session', useFactory: (user: any) => user, deps: ['user'] },
+    ]);
+
+    expect(() => injector.validate()).toThrowError(/Cannot instantiate user outside of scope 'request'! \(session -> user\)$/);
+    expect(() => injector.get('session')).toThrowError(/Cannot instantiate user outside of scope 'request'! \(session -> user\)/);
+    const child = injector
+      .createScope('request')
+      .resolveAndCreateChild([{ provide: 'session', useFactory: (user: any) => user, deps: ['user'] }]);
+    expect(() => child.validate()).not.toThrow();
+  });
+
+  it('should validate new injectors with the validate option', () => {
+    expect(() => ReflectiveInjector.resolveAndCreate([Car], undefined, { validate: true })).toThrowError(
+      /No provider for Engine! \(Car -> Engine\)/
+    );
+
+    const parent = ReflectiveInjector.resolveAndCreate([Engine], undefined, { validate: true });
+    expect(() => parent.resolveAndCreateChild([Car], { validate: true })).not.toThrow();
+    expect(() => parent.resolveAndCreateChild([Garage], { validate: true })).toThrowError(/No provider for Car! \(Garage -> Car\)/);
+  });
+});
+
+describe('eager providers', () => {
+  it('should instantiate eager providers when creating the injector', () => {
+    const created: string[] = [];
+    createInjector([
+      { provide: 'lazy', useFactory: () => created.push('lazy') },
+      { provide: 'eager', useFactory: () => created.push('eager'), eager: true },
+    ]);
+
+    expect(created).toEqual(['eager']);
+  });
+
+  it('should throw when resolving eager async providers', () => {
+    expect(() =>
+      ReflectiveInjector.resolve([<any>{ provide: 'config', useAsyncFactory: () => Promise.resolve({}), eager: true }])
+    ).toThrowError('Cannot instantiate the async provider config eagerly, retrieve it with getAsync() instead!');
+  });
+
+  it('should instantiate classes decorated as eager', () => {
+    const created: string[] = [];
+    @Injectable({ eager: true })
+    class Startup {
+      constructor() {
+        created.push('startup');
+      }
+    }
+
+    const injector = createInjector([Startup]);
+    expect(created).toEqual(['startup']);
+    expect(injector.get(Startup)).toBe(injector.get(Startup));
+  });
+
+  it('should let providers opt out of the eager option of their class', () => {
+    let created = 0;
+    @Injectable({ eager: true })
+    class Startup {
+      constructor() {
+        created++;
+      }
+    }
+
+    createInjector([{ provide: Startup, useClass: Startup, eager: false }]);
+    expect(created).toEqual(0);
+  });
+
+  it('should instantiate the dependencies of eager providers first', () => {
+    const created: string[] = [];
+    createInjector([
+      { provide: 'server', useFactory: () => created.push('server'), deps: ['config'], eager: true },
+      { provide: 'config', useFactory: () => created.push('config'), eager: true },
+    ]);
+
+    expect(created).toEqual(['config', 'server']);
+  });
+
+  it('should instantiate eager providers of child injectors', () => {
+    const created: string[] = [];
+    const parent = createInjector([{ provide: 'config', useValue: 'prod' }]);
+
+    const child = parent.resolveAndCreateChild([
+      { provide: 'server', useFactory: (config: string) => created.push(config), deps: ['config'], eager: true },
+    ]);
+    expect(created).toEqual(['prod']);
+    expect(child.get('server')).toEqual(1);
+  });
+
+  it('should report the failure of an eager provider with its dependency path', () => {
+    const destroyed: string[] = [];
+    class Config {
+      ngOnDestroy() {
+        destroyed.push('config');
+      }
+    }
+
+    expect(() =>
+      createInjector([
+        { provide: Config, useClass: Config, eager: true },
+        {
+          provide: 'server',
+          useFactory: () => {
+            throw new Error('Port in use');
+          },
+          deps: [],
+        },
+        { provide: 'app', useFactory: (server: any) => server, deps: ['server'], eager: true },
+      ])
+    ).toThrowError('Port in use: Error during instantiation of server! (app -> server).');
+    expect(destroyed).toEqual(['config']);
+  });
+});
+
+describe('dependencyGraph', () => {
+  const PLUGINS = new InjectionToken<string[]>('plugins');
+
+  it('should describe the providers, their owners and their dependencies', () => {
+    const root = ReflectiveInjector.resolveAndCreate([Engine, { provide: 'config', useValue: {} }], undefined, { name: 'root' });
+    const child = root.resolveAndCreateChild([Car, CarWithOptionalEngine, DashboardSoftware], { name: 'child' });
+    child.get(Car);
+
+    expect(JSON.parse(JSON.stringify(child.dependencyGraph()))).toEqual({
+      injectors: [{ id: 'i0', name: 'root', parent: null }, { id: 'i1', name: 'child', parent: 'i0' }],
+      nodes: [
+        { id: 'n0', kind: 'provider', token: 'Car', injector: 'i1', multi: false, instantiated: true },
+        { id: 'n1', kind: 'provider', token: 'Engine', injector: 'i0', multi: false, instantiated: true },
+        { id: 'n2', kind: 'provider', token: 'CarWithOptionalEngine', injector: 'i1', multi: false, instantiated: false },
+        { id: 'n3', kind: 'provider', token: 'DashboardSoftware', injector: 'i1', multi: false, instantiated: false },
+      ],
+      edges: [
+        {
+          from: 'n0',
+          to: 'n1',
+          kind: 'dependency',
+          optional: false,
+          self: false,
+          skipSelf: false,
+          host: false,
+          deferred: null,
+          property: null,
+        },
+        {
+          from: 'n2',
+          to: 'n1',
+          kind: 'dependency',
+          optional: true,
+          self: false,
+          skipSelf: false,
+          host: false,
+          deferred: null,
+          property: null,
+        },
+      ],
+    });
+  });
+
+  it('should describe the visibility and the deferred dependencies', () => {
+    @Injectable()
+    class Service {
+      @InjectProperty('config') config: any;
+      constructor(
+        @SkipSelf() public engine: Engine,
+        @Self() @Optional() public car: Car,
+        @Inject(lazy(Engine)) public lazyEngine: Lazy<Engine>
+      ) {}
+    }
+    const parent = ReflectiveInjector.resolveAndCreate([Engine]);
+    const graph = parent.resolveAndCreateChild([Service]).dependencyGraph();
+
+    expect(graph.nodes.map(node => [node.token, node.kind, node.injector])).toEqual([
+      ['Service', 'provider', 'i1'],
+      ['Engine', 'provider', 'i0'],
+      ['Car', 'unresolved', null],
+      ['config', 'unresolved', null],
+    ]);
+    expect(graph.edges.map(edge => [edge.to, edge.skipSelf, edge.self, edge.optional, edge.deferred, edge.property])).toEqual([
+      ['n1', true, false, false, null, null],
+      ['n2', false, true, true, null, null],
+      ['n1', false, false, false, 'lazy', null],
+      ['n3', false, false, false, null, 'config'],
+    ]);
+  });
+
+  it('should fan out multi tokens to their entries and the inherited entries', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([{ provide: PLUGINS, useValue: 'a', multi: true }]);
+    const child = parent.resolveAndCreateChild([
+      { provide: PLUGINS, useClass: Car, multi: true, extend: true },
+      { provide: PLUGINS, useValue: 'c', multi: true, extend: true },
+      Engine,
+    ]);
+
+    const graph = child.dependencyGraph();
+    expect(graph.nodes.map(node => [node.id, node.kind, node.token, node.injector, node.multi])).toEqual([
+      ['n0', 'provider', 'InjectionToken plugins', 'i1', true],
+      ['n1', 'entry', 'InjectionToken plugins[0]', 'i1', false],
+      ['n2', 'provider', 'Engine', 'i1', false],
+      ['n3', 'entry', 'InjectionToken plugins[1]', 'i1', false],
+      ['n4', 'provider', 'InjectionToken plugins', 'i0', true],
+      ['n5', 'entry', 'InjectionToken plugins[0]', 'i0', false],
+    ]);
+    expect(graph.edges.map(edge => [edge.from, edge.to, edge.kind])).toEqual([
+      ['n0', 'n1', 'entry'],
+      ['n1', 'n2', 'dependency'],
+      ['n0', 'n3', 'entry'],
+      ['n4', 'n5', 'entry'],
+      ['n0', 'n4', 'entry'],
+    ]);
+  });
+
+  it('should only mark the providers instantiated in the injectors which instantiated them', () => {
+    const providers = ReflectiveInjector.resolve([Engine]);
+    const root = ReflectiveInjector.fromResolvedProviders(providers);
+    root.createChildFromResolved(providers).get(Engine);
+
+    expect(root.dependencyGraph().nodes.map(node => [node.token, node.injector, node.instantiated])).toEqual([
+      ['Engine', 'i0', false],
+      ['Engine', 'i1', true],
+    ]);
+  });
+
+  it('should include the descendants of the injector', () => {
+    const root = ReflectiveInjector.resolveAndCreate([Engine]);
+    root.resolveAndCreateChild([Car]).resolveAndCreateChild([]);
+
+    expect(root.dependencyGraph().injectors).toEqual([
+      { id: 'i0', name: null, parent: null },
+      { id: 'i1', name: null, parent: 'i0' },
+      { id: 'i2', name: null, parent: 'i1' },
+    ]);
+  });
+
+  it('should serialise to DOT and Mermaid', () => {
+    const root = ReflectiveInjector.resolveAndCreate([Engine], undefined, { name: 'root' });
+    const child = root.resolveAndCreateChild([Car, CarWithOptionalEngine], { name: 'child "one"' });
+    child.get(Car);
+    const graph = root.dependencyGraph();
+
+    expect(graph.toDot()).toEqual(
+      [
+        'digraph {',
+        '  subgraph cluster_i0 {',
+        '    label="root";',
+        '    n0 [label="Engine", style=filled];',
+        '    subgraph cluster_i1 {',
+        '      label="child \\"one\\"";',
+        '      n1 [label="Car", style=filled];',
+        '      n2 [label="CarWithOptionalEngine"];',
+        '    }',
+        '  }',
+        '  n1 -> n0;',
+        '  n2 -> n0 [label="optional", style=dashed];',
+        '}',
+      ].join('\n')
+    );
+    expect(graph.toMermaid()).toEqual(
+      [
+        'flowchart TD',
+        '  subgraph i0 ["root"]',
+        '    n0["Engine"]:::instantiated',
+        '    subgraph i1 ["child #quot;one#quot;"]',
+        '      n1["Car"]:::instantiated',
+        '      n2["CarWithOptionalEngine"]',
+        '    end',
+        '  end',
+        '  n1 --> n0',
+        '  n2 -.->|"optional"| n0',
+        '  classDef instantiated fill:#cfc',
+        '  classDef unresolved stroke-dasharray:4',
+      ].join('\n')
+    );
+  });
+});
+
+describe('observers', () => {
+  function recordEvents(events: string[]): InjectorObserver {
+    return {
+      onResolveStart: event => events.push(`start ${event.path.map(key => key.displayName).join(' -> ')}`),
+      onInstantiated: event => events.push(`instantiated ${event.key.displayName}`),
+      onError: event => events.push(`error ${event.key.displayName}: ${event.error.message}`),
+      onNotFound: event => events.push(`not found ${event.path.map(key => key.displayName).join(' -> ')}`),
+    };
+  }
+
+  it('should notify the observers of the injector and its ancestors', () => {
+    const parentEvents: string[] = [];
+    const childEvents: string[] = [];
+    const parent = createInjector([Engine]);
+    parent.addObserver(recordEvents(parentEvents));
+    const child = createInjector([Car, CarWithOptionalEngine], parent);
+    child.addObserver(recordEvents(childEvents));
+
+    child.get(Car);
+    child.get(Car);
+    expect(childEvents).toEqual(['start Car', 'instantiated Car']);
+    expect(parentEvents).toEqual(['start Car', 'start Car -> Engine', 'instantiated Engine', 'instantiated Car']);
+  });
+
+  it('should give the instances and the timing', () => {
+    const injector = createInjector([Car, Engine]);
+    const events: InstantiatedEvent[] = [];
+    injector.addObserver({ onInstantiated: event => events.push(event) });
+
+    const car = injector.get(Car);
+    expect(events.map(event => event.instance)).toEqual([car.engine, car]);
+    expect(events[1].injector).toBe(injector);
+    expect(events[1].duration).toBeGreaterThanOrEqual(events[0].duration);
+    expect(events[1].timestamp).toBeGreaterThanOrEqual(events[0].timestamp);
+  });
+
+  it('should notify failed instantiations and missing providers', () => {
+    const events: string[] = [];
+    const injector = createInjector([Car, { provide: Engine, useClass: BrokenEngine }, CarWithOptionalEngine]);
+    injector.addObserver(recordEvents(events));
+
+    expect(() => injector.get(Car)).toThrowError(/Broken Engine/);
+    expect(injector.get('missing', null)).toBe(null);
+    expect(events).toEqual([
+      'start Car',
+      'start Car -> Engine',
+      'error Engine: Broken Engine: Error during instantiation of Engine!.',
+      'error Car: Broken Engine: Error during instantiation of Engine! (Car -> Engine).',
+      'not found missing',
+    ]);
+  });
+
+  it('should notify the missing dependencies with their path', () => {
+    const events: string[] = [];
+    const injector = createInjector([CarWithOptionalEngine]);
+    injector.addObserver({ onNotFound: recordEvents(events).onNotFound });
+
+    injector.get(CarWithOptionalEngine);
+    expect(events).toEqual(['not found CarWithOptionalEngine -> Engine']);
+  });
+
+  it('should notify asynchronous instantiations', async () => {
+    const events: string[] = [];
+    const injector = createInjector([Car, { provide: Engine, useAsyncFactory: async () => new Engine() }]);
+    injector.addObserver(recordEvents(events));
+
+    await injector.getAsync(Car);
+    expect(events).toEqual(['start Car', 'start Car -> Engine', 'instantiated Engine', 'instantiated Car']);
+  });
+
+  it('should notify the global observers until they are removed', () => {
+    const events: string[] = [];
+    const remove = ReflectiveInjector.addGlobalObserver(recordEvents(events));
+    try {
+      createInjector([Engine]).get(Engine);
+    } finally {
+      remove();
+    }
+    createInjector([Engine]).get(Engine);
+    expect(events).toEqual(['start Engine', 'instantiated Engine']);
+  });
+
+  it('should stop notifying observers once removed or once the injector is destroyed', () => {
+    const events: string[] = [];
+    const injector = createInjector([Engine, Car]);
+    injector.addObserver(recordEvents(events))();
+    injector.get(Engine);
+    const child = createInjector([Car], injector);
+    child.addObserver(recordEvents(events));
+    child.destroy();
+
+    createInjector([Car], injector).get(Car);
+    expect(events).toEqual([]);
+  });
+});
+
+describe('InjectorProfiler', () => {
+  function busyWait(ms: number) {
+    const end = Date.now() + ms;
+    while (Date.now() < end) {}
+  }
+
+  const SlowEngine = { provide: Engine, useFactory: () => (busyWait(20), new Engine()) };
+  let profiler: InjectorProfiler;
+
+  beforeEach(() => (profiler = new InjectorProfiler().start()));
+  afterEach(() => profiler.stop());
+
+  it('should report the self and inclusive time per key, by decreasing self time', () => {
+    const injector = createInjector([Car, SlowEngine]);
+    injector.get(Car);
+    injector.get(Car);
+
+    const report = profiler.report();
+    expect(report.map(entry => [entry.key.displayName, entry.calls])).toEqual([['Engine', 1], ['Car', 1]]);
+    expect(report[0].selfTime).toBeGreaterThanOrEqual(19);
+    expect(report[1].selfTime).toBeLessThan(report[0].selfTime);
+    expect(report[1].inclusiveTime).toBeGreaterThanOrEqual(report[0].inclusiveTime);
+    expect(
+      profiler
+        .toString()
+        .split('\n')
+        .map(line => line.slice(line.lastIndexOf(' ') + 1))
+    ).toEqual(['Token', 'Engine', 'Car']);
+  });
+
+  it('should count the factory calls of multi providers and transient providers', () => {
+    const injector = createInjector([
+      { provide: 'plugins', useValue: 'a', multi: true },
+      { provide: 'plugins', useValue: 'b', multi: true },
+      { provide: Engine, useClass: Engine, scope: 'transient' },
+    ]);
+    injector.get('plugins');
+    injector.get(Engine);
+    injector.get(Engine);
+
+    expect(profiler.report().map(entry => [entry.key.displayName, entry.calls])).toContain(['plugins', 2]);
+    expect(profiler.report().map(entry => [entry.key.displayName, entry.calls])).toContain(['Engine', 2]);
+  });
+
+  it('should nest the trace events of the dependencies', () => {
+    createInjector([Car, SlowEngine]).get(Car);
+
+    const events = profiler.toTraceEvents().traceEvents;
+    expect(events.map(event => [event.name, event.ph])).toEqual([['Car', 'X'], ['Engine', 'X']]);
+    expect(events[0].ts).toEqual(0);
+    expect(events[1].ts + events[1].dur).toBeLessThanOrEqual(events[0].ts + events[0].dur + 1);
+    expect(events[1].dur).toBeGreaterThanOrEqual(19000);
+  });
+
+  it('should exclude the asynchronous dependencies from the self time', async () => {
+    const injector = createInjector([
+      Car,
+      { provide: Engine, useAsyncFactory: () => new Promise<Engine>(resolve => setTimeout(() => resolve(new Engine()), 20)) },
+    ]);
+    await injector.getAsync(Car);
+
+    const report = profiler.report();
+    expect(report.map(entry => entry.key.displayName)).toEqual(['Engine', 'Car']);
+    expect(report[1].selfTime).toBeLessThan(report[0].selfTime);
+  });
+
+  it('should not record anything once stopped', () => {
+    profiler.stop();
+    createInjector([Car, Engine]).get(Car);
+
+    expect(profiler.report()).toEqual([]);
+    expect(profiler.toTraceEvents().traceEvents).toEqual([]);
+  });
+});
+
+describe('static inject', () => {
+  class Radio {}
+
+  class PlainCar {
+    static inject = [Engine, [new Optional(), Radio], [new Inject('driver')]];
+
+    constructor(public engine: Engine, public radio: Radio, public driver: string) {}
+  }
+
+  it('should inject the dependencies listed by the static inject property', () => {
+    const injector = createInjector([PlainCar, Engine, { provide: 'driver', useValue: 'Alice' }]);
+
+    const car = injector.get(PlainCar);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.radio).toBe(null);
+    expect(car.driver).toEqual('Alice');
+  });
+
+  it('should apply the visibility modifiers', () => {
+    class Child {
+      static inject = [[new SkipSelf(), Engine]];
+
+      constructor(public engine: Engine) {}
+    }
+    const parent = createInjector([Engine]);
+    const child = createInjector([Child, { provide: Engine, useClass: TurboEngine }], parent);
+
+    expect(child.get(Child).engine).toBe(parent.get(Engine));
+  });
+
+  it('should inherit the dependencies of the parent class without constructor', () => {
+    class PlainSportsCar extends PlainCar {}
+    const injector = createInjector([PlainSportsCar, Engine, { provide: 'driver', useValue: 'Alice' }]);
+
+    expect(injector.get(PlainSportsCar).driver).toEqual('Alice');
+  });
+
+  it('should use the static inject property of a subclass with a constructor', () => {
+    class PlainTruck extends PlainCar {
+      static inject = [Engine];
+
+      constructor(engine: Engine) {
+        super(engine, new Radio(), 'Bob');
+      }
+    }
+    const injector = createInjector([PlainTruck, Engine]);
+
+    expect(injector.get(PlainTruck).driver).toEqual('Bob');
+  });
+
+  it('should not use the inherited static inject property for a subclass with a constructor', () => {
+    class PlainTruck extends PlainCar {
+      constructor(engine: Engine) {
+        super(engine, new Radio(), 'Bob');
+      }
+    }
+
+    expect(() => createInjector([PlainTruck, Engine])).toThrowError(/Cannot resolve all parameters for 'PlainTruck'\(\?\)/);
+  });
+});
+
+describe('cyclic dependencies', () => {
+  it('should report the exact cycle', () => {
+    const injector = createInjector([
+      { provide: 'root', useFactory: (a: any) => a, deps: ['a'] },
+      { provide: 'a', useFactory: (b: any) => b, deps: ['b'] },
+      { provide: 'b', useFactory: (c: any) => c, deps: ['c'] },
+      { provide: 'c', useFactory: (a: any) => a, deps: ['a'] },
+    ]);
+
+    try {
+      injector.get('root');
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toEqual('Cannot instantiate cyclic dependency! (a -> b -> c -> a)');
+      expect(e.cycle.map((step: any) => step.key.token)).toEqual(['a', 'b', 'c', 'a']);
+      expect(e.cycle.every((step: any) => step.injector === injector)).toBe(true);
+    }
+  });
+
+  it('should record the injector creating every step', () => {
+    const parent = createInjector([
+      { provide: 'a', useFactory: (b: any) => b, deps: ['b'], scope: 'request' },
+      { provide: 'b', useFactory: (a: any) => a, deps: ['a'], scope: 'request' },
+    ]);
+    const scope = parent.createScope('request');
+
+    try {
+      scope.get('a');
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toMatch(/^Cannot instantiate cyclic dependency! /);
+      expect(e.cycle.map((step: any) => step.key.token)).toEqual(['a', 'b', 'a']);
+      expect(e.cycle.map((step: any) => step.injector)).toEqual([scope, scope, scope]);
+    }
+  });
+
+  it('should name the injector of every step when the cycle spans several injectors', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([{ provide: 'b', useFactory: () => child.get('a') }], undefined, { name: 'app' });
+    const child = ReflectiveInjector.resolveAndCreate([{ provide: 'a', useFactory: (b: any) => b, deps: ['b'] }], parent, {
+      name: 'feature',
+    });
+
+    expect(() => child.get('a')).toThrowError(/Cannot instantiate cyclic dependency! \(a in feature -> b in app -> a in feature\)/);
+  });
+
+  it('should detect cycles through injector.get() calls', () => {
+    @Injectable()
+    class Lookup {
+      constructor(injector: Injector) {
+        injector.get('dependent');
+      }
+    }
+    const injector = createInjector([Lookup, { provide: 'dependent', useFactory: (l: Lookup) => l, deps: [Lookup] }]);
+
+    expect(() => injector.get(Lookup)).toThrowError(/Cannot instantiate cyclic dependency! \(Lookup -> dependent -> Lookup\)/);
+  });
+
+  it('should not report a cycle after repeated failed attempts', () => {
+    let attempts = 0;
+    const injector = ReflectiveInjector.resolveAndCreate([
+      {
+        provide: Engine,
+        useFactory: () => {
+          if (++attempts < 5) throw new Error('Broken Engine');
+          return new Engine();
+        },
+      },
+    ]);
+
+    for (let i = 1; i < 5; i++) {
+      expect(() => injector.get(Engine)).toThrowError(/Broken Engine/);
+    }
+    expect(injector.get(Engine) instanceof Engine).toBe(true);
+  });
+
+  it('should report the exact cycle with getAsync', async () => {
+    const injector = createInjector([
+      { provide: 'a', useAsyncFactory: (b: any) => Promise.resolve(b), deps: ['b'] },
+      { provide: 'b', useFactory: (a: any) => a, deps: ['a'] },
+    ]);
+
+    try {
+      await injector.getAsync('a');
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toEqual('Cannot instantiate cyclic dependency! (a -> b -> a)');
+      expect(e.cycle.length).toEqual(3);
+    }
+  });
+});
+
+describe('transient providers', () => {
+  @Injectable({ scope: 'transient' })
+  class TransientEngine {}
+
+  @Injectable()
+  class TransientCar {
+    constructor(public engine: TransientEngine) {}
+  }
+
+  @Injectable({ scope: 'transient' })
+  class CyclicTransient {
+    constructor(@Inject(forwardRef(() => CyclicTransient)) self: any) {}
+  }
+
+  it('should create a new instance on every resolution', () => {
+    const injector = createInjector([{ provide: Engine, useClass: Engine, scope: 'transient' }]);
+
+    expect(injector.get(Engine) instanceof Engine).toBe(true);
+    expect(injector.get(Engine)).not.toBe(injector.get(Engine));
+  });
+
+  it('should support transient factories', () => {
+    let count = 0;
+    const injector = createInjector([{ provide: 'count', useFactory: () => ++count, scope: 'transient' }]);
+
+    expect(injector.get('count')).toEqual(1);
+    expect(injector.get('count')).toEqual(2);
+  });
+
+  it('should read the scope from the @Injectable annotation', () => {
+    const injector = createInjector([TransientEngine, TransientCar]);
+
+    expect(injector.get(TransientEngine)).not.toBe(injector.get(TransientEngine));
+    expect(injector.get(TransientCar)).toBe(injector.get(TransientCar));
+  });
+
+  it('should inject a new instance into every dependent', () => {
+    const injector = createInjector([TransientEngine, TransientCar, { provide: 'other', useClass: TransientCar }]);
+
+    expect(injector.get(TransientCar).engine).not.toBe(injector.get('other').engine);
+  });
+
+  it('should let the provider override the annotation', () => {
+    const injector = createInjector([{ provide: TransientEngine, useClass: TransientEngine, scope: 'singleton' }]);
+
+    expect(injector.get(TransientEngine)).toBe(injector.get(TransientEngine));
+  });
+
+  it('should make aliases of transient providers transient', () => {
+    const parent = createInjector([TransientEngine]);
+    const child = parent.resolveAndCreateChild([{ provide: Engine, useExisting: TransientEngine }]);
+
+    expect(child.get(Engine) instanceof TransientEngine).toBe(true);
+    expect(child.get(Engine)).not.toBe(child.get(Engine));
+  });
+
+  it('should keep aliases of singleton providers cached', () => {
+    const injector = createInjector([Engine, { provide: 'engine', useExisting: Engine }]);
+
+    expect(injector.get('engine')).toBe(injector.get(Engine));
+  });
+
+  it('should create new transient entries of multi providers', () => {
+    const injector = createInjector([
+      { provide: 'engines', useClass: Engine, multi: true },
+      { provide: 'engines', useClass: TransientEngine, multi: true },
+      { provide: 'engines', useExisting: TransientEngine, multi: true },
+      TransientEngine,
+    ]);
+
+    const first = injector.get('engines');
+    const second = injector.get('engines');
+    expect(first[0]).toBe(second[0]);
+    expect(first[1]).not.toBe(second[1]);
+    expect(first[2]).not.toBe(second[2]);
+    expect(first[2] instanceof TransientEngine).toBe(true);
+  });
+
+  it('should not count transient instances as cyclic dependencies', () => {
+    const injector = createInjector([TransientEngine]);
+
+    for (let i = 0; i < 50; i++) {
+      injector.get(TransientEngine);
+    }
+    expect(injector.get(TransientEngine) instanceof TransientEngine).toBe(true);
+  });
+
+  it('should throw when transient providers form a cycle', () => {
+    const injector = createInjector([CyclicTransient]);
+
+    expect(() => injector.get(CyclicTransient)).toThrowError(/Cannot instantiate cyclic dependency!/);
+  });
+
+  it('should create new instances with getAsync', async () => {
+    const injector = createInjector([
+      TransientEngine,
+      { provide: 'async', useAsyncFactory: () => Promise.resolve({}), scope: 'transient' },
+    ]);
+
+    expect(await injector.getAsync(TransientEngine)).not.toBe(await injector.getAsync(TransientEngine));
+    expect(await injector.getAsync('async')).not.toBe(await injector.getAsync('async'));
+  });
+
+  it('should not destroy transient instances', () => {
+    let destroyed = 0;
+    class Connection {
+      onDestroy() {
+        destroyed++;
+      }
+    }
+    const injector = createInjector([Connection, { provide: 'transient', useClass: Connection, scope: 'transient' }]);
+    injector.get(Connection);
+    injector.get('transient');
+
+    injector.destroy();
+    expect(destroyed).toEqual(1);
+  });
+});
+
+describe('named scopes', () => {
+  @Injectable({ scope: 'request' })
+  class RequestContext {
+    constructor(public engine: Engine) {}
+  }
+
+  @Injectable({ scope: 'request' })
+  class RequestCar {
+    constructor(public context: RequestContext, public injector: Injector) {}
+  }
+
+  @Injectable()
+  class CaptiveCar {
+    constructor(public context: RequestContext) {}
+  }
+
+  it('should create scoped instances once per scope', () => {
+    const injector = createInjector([Engine, RequestContext]);
+    const first = injector.createScope('request');
+    const second = injector.createScope('request');
+
+    expect(first.get(RequestContext)).toBe(first.get(RequestContext));
+    expect(first.get(RequestContext)).not.toBe(second.get(RequestContext));
+  });
+
+  it('should share root singletons between scopes', () => {
+    const injector = createInjector([Engine, RequestContext]);
+    const first = injector.createScope('request');
+    const second = injector.createScope('request');
+
+    expect(first.get(RequestContext).engine).toBe(second.get(RequestContext).engine);
+    expect(first.get(Engine)).toBe(injector.get(Engine));
+  });
+
+  it('should resolve the dependencies of scoped providers in the scope', () => {
+    const injector = createInjector([Engine, RequestContext, RequestCar]);
+    const scope = injector.createScope('request');
+
+    const car = scope.get(RequestCar);
+    expect(car.context).toBe(scope.get(RequestContext));
+    expect(car.injector).toBe(scope);
+  });
+
+  it('should resolve the dependencies of scoped providers declared in the scope from their injector', async () => {
+    const scope = createInjector([]).createScope('job');
+    const child = scope.resolveAndCreateChild([
+      { provide: 'job', useFactory: (x: number) => ({ x }), deps: ['x'], scope: 'job' },
+      { provide: 'x', useValue: 1 },
+    ]);
+    const asyncChild = scope.resolveAndCreateChild([
+      { provide: 'job', useAsyncFactory: (x: number) => Promise.resolve({ x }), deps: ['x'], scope: 'job' },
+      { provide: 'x', useValue: 2 },
+    ]);
+
+    expect(child.get('job')).toEqual({ x: 1 });
+    expect(await asyncChild.getAsync('job')).toEqual({ x: 2 });
+    expect(child.get('job')).toBe(child.get('job'));
+  });
+
+  it('should read the scope from the provider', () => {
+    let count = 0;
+    const injector = createInjector([{ provide: 'id', useFactory: () => ++count, scope: 'job' }]);
+
+    expect(injector.createScope('job').get('id')).toEqual(1);
+    expect(injector.createScope('job').get('id')).toEqual(2);
+  });
+
+  it('should use the nearest enclosing scope', () => {
+    const injector = createInjector([Engine, RequestContext]);
+    const scope = injector.createScope('request');
+    const child = scope.resolveAndCreateChild([]);
+    const nested = child.createScope('job');
+
+    expect(nested.get(RequestContext)).toBe(scope.get(RequestContext));
+  });
+
+  it('should throw when resolved outside of its scope', () => {
+    const injector = createInjector([Engine, RequestContext]);
+
+    expect(() => injector.get(RequestContext)).toThrowError(`Cannot instantiate ${stringify(RequestContext)} outside of scope 'request'!`);
+    expect(() => injector.createScope('job').get(RequestContext)).toThrowError(/outside of scope 'request'/);
+  });
+
+  it('should not let root singletons capture scoped instances', () => {
+    const injector = createInjector([Engine, RequestContext, CaptiveCar]);
+    const scope = injector.createScope('request');
+
+    expect(() => scope.get(CaptiveCar)).toThrowError(
+      `Cannot instantiate ${stringify(RequestContext)} outside of scope 'request'! (${stringify(CaptiveCar)} -> ${stringify(
+        RequestContext
+      )})`
+    );
+  });
+
+  it('should destroy scoped instances with the scope', () => {
+    let destroyed = 0;
+    class Session {
+      ngOnDestroy() {
+        destroyed++;
+      }
+    }
+    const injector = createInjector([{ provide: Session, useClass: Session, scope: 'request' }]);
+    const scope = injector.createScope('request');
+    scope.get(Session);
+
+    scope.destroy();
+    expect(destroyed).toEqual(1);
+    expect(injector.createScope('request').get(Session) instanceof Session).toBe(true);
+  });
+
+  it('should support getAsync', async () => {
+    const injector = createInjector([
+      Engine,
+      { provide: RequestContext, useAsyncFactory: (e: Engine) => Promise.resolve(new RequestContext(e)), deps: [Engine], scope: 'request' },
+    ]);
+    const scope = injector.createScope('request');
+
+    const [c1, c2] = await Promise.all([scope.getAsync(RequestContext), scope.getAsync(RequestContext)]);
+    expect(c1).toBe(c2);
+    expect(scope.get(RequestContext)).toBe(c1);
+    expect(await injector.createScope('request').getAsync(RequestContext)).not.toBe(c1);
+    await expectAsync(injector.getAsync(RequestContext)).toBeRejectedWithError(/outside of scope 'request'/);
+  });
+});
+
+describe('getAsync', () => {
+  const connect = () => Promise.resolve(new Engine());
+
+  it('should inject the resolved value of an async factory', async () => {
+    const injector = createInjector([Car, { provide: Engine, useAsyncFactory: connect }]);
+
+    const car = await injector.getAsync(Car);
+    expect(car instanceof Car).toBeTruthy();
+    expect(car.engine instanceof Engine).toBeTruthy();
+  });
+
+  it('should cache the settled value', async () => {
+    const injector = createInjector([Car, { provide: Engine, useAsyncFactory: connect }]);
+
+    const engine = await injector.getAsync(Engine);
+    expect(await injector.getAsync(Engine)).toBe(engine);
+    expect(injector.get(Engine)).toBe(engine);
+    expect(injector.get(Car).engine).toBe(engine);
+  });
+
+  it('should invoke the factory once for concurrent requests', async () => {
+    let calls = 0;
+    const injector = createInjector([{ provide: Engine, useAsyncFactory: () => Promise.resolve(++calls) }]);
+
+    const [e1, e2] = await Promise.all([injector.getAsync(Engine), injector.getAsync(Engine)]);
+    expect(e1).toBe(e2);
+    expect(calls).toEqual(1);
+  });
+
+  it('should pass resolved values to async factory dependencies', async () => {
+    const injector = createInjector([
+      { provide: 'url', useAsyncFactory: () => Promise.resolve('db://') },
+      { provide: 'connection', useAsyncFactory: (url: string) => Promise.resolve(`${url}conn`), deps: ['url'] },
+    ]);
+
+    expect(await injector.getAsync('connection')).toEqual('db://conn');
+  });
+
+  it('should resolve async providers from the parent injector', async () => {
+    const parent = createInjector([{ provide: Engine, useAsyncFactory: connect }]);
+    const child = parent.resolveAndCreateChild([Car]);
+
+    const car = await child.getAsync(Car);
+    expect(car.engine).toBe(parent.get(Engine));
+  });
+
+  it('should support async multi providers', async () => {
+    const injector = createInjector([
+      { provide: 'values', useAsyncFactory: () => Promise.resolve(1), multi: true },
+      { provide: 'values', useValue: 2, multi: true },
+    ]);
+
+    expect(await injector.getAsync('values')).toEqual([1, 2]);
+  });
+
+  it('should throw when an unresolved async provider is requested synchronously', () => {
+    const injector = createInjector([Car, { provide: Engine, useAsyncFactory: connect }]);
+
+    expect(() => injector.get(Car)).toThrowError(
+      `Cannot synchronously instantiate async provider Engine, use getAsync() instead! (${stringify(Car)} -> Engine)`
+    );
+  });
+
+  it('should throw when a provider being instantiated by getAsync is requested synchronously', async () => {
+    let calls = 0;
+    const injector = createInjector([{ provide: Engine, useFactory: () => ++calls }]);
+
+    const pending = injector.getAsync(Engine);
+    expect(() => injector.get(Engine)).toThrowError('Cannot synchronously instantiate async provider Engine, use getAsync() instead!');
+    expect(await pending).toEqual(1);
+    expect(injector.get(Engine)).toEqual(1);
+    expect(calls).toEqual(1);
+  });
+
+  it('should reject with the original error when an async factory fails', async () => {
+    const injector = createInjector([Car, { provide: Engine, useAsyncFactory: () => Promise.reject(new Error('Broken Engine')) }]);
+
+    try {
+      await injector.getAsync(Car);
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toEqual('Broken Engine: Error during instantiation of Engine! (Car -> Engine).');
+    }
+  });
+
+  it('should reject when no provider is defined', async () => {
+    const injector = createInjector([]);
+
+    try {
+      await injector.getAsync('NonExisting');
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toEqual('No provider for NonExisting!');
+    }
+    expect(await injector.getAsync('NonExisting', 'notFound')).toEqual('notFound');
+  });
+
+  it('should reject when trying to instantiate a cyclic dependency', async () => {
+    const injector = createInjector([Car, { provide: Engine, useClass: CyclicEngine }]);
+
+    try {
+      await injector.getAsync(Car);
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toEqual(`Cannot instantiate cyclic dependency! (${stringify(Car)} -> ${stringify(Engine)} -> ${stringify(Car)})`);
+    }
+  });
+});
+
+describe('destroy', () => {
+  let log: string[];
+
+  @Injectable()
+  class Logger {
+    ngOnDestroy() {
+      log.push('Logger');
+    }
+  }
+
+  @Injectable()
+  class Service {
+    constructor(public logger: Logger) {}
+
+    onDestroy() {
+      log.push('Service');
+    }
+  }
+
+  beforeEach(() => {
+    log = [];
+  });
+
+  it('should call destroy hooks in reverse instantiation order', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Service, Logger]);
+    injector.get(Service);
+
+    injector.destroy();
+    expect(log).toEqual(['Service', 'Logger']);
+  });
+
+  it('should only destroy instantiated providers', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Service, Logger]);
+    injector.get(Logger);
+
+    injector.destroy();
+    expect(log).toEqual(['Logger']);
+  });
+
+  it('should destroy aliased instances once', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Logger, { provide: 'logger', useExisting: Logger }]);
+    injector.get('logger');
+
+    injector.destroy();
+    expect(log).toEqual(['Logger']);
+  });
+
+  it('should not destroy the instances of the parent injector', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([Logger]);
+    const child = parent.resolveAndCreateChild([
+      { provide: 'alias', useExisting: Logger },
+      { provide: 'factory', useFactory: (logger: Logger) => logger, deps: [Logger] },
+    ]);
+    child.get('alias');
+    child.get('factory');
+
+    child.destroy();
+    expect(log).toEqual([]);
+
+    parent.destroy();
+    expect(log).toEqual(['Logger']);
+  });
+
+  it('should not destroy values', () => {
+    const logger = new Logger();
+    const injector = ReflectiveInjector.resolveAndCreate([
+      { provide: Logger, useValue: logger },
+      { provide: 'loggers', useValue: logger, multi: true },
+    ]);
+    injector.get(Logger);
+    injector.get('loggers');
+
+    injector.destroy();
+    expect(log).toEqual([]);
+  });
+
+  it('should destroy the instances settled once the injector has been destroyed', async () => {
+    let resolve!: (logger: Logger) => void;
+    const injector = ReflectiveInjector.resolveAndCreate([
+      { provide: Logger, useAsyncFactory: () => new Promise<Logger>(r => (resolve = r)) },
+    ]);
+    const pending = injector.getAsync(Logger);
+
+    injector.destroy();
+    resolve(new Logger());
+    await expectAsync(pending).toBeRejectedWithError('Injector has already been destroyed.');
+    expect(log).toEqual(['Logger']);
+  });
+
+  it('should destroy every instance of a multi provider', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([
+      { provide: 'loggers', useClass: Logger, multi: true },
+      { provide: 'loggers', useClass: Logger, multi: true },
+    ]);
+    injector.get('loggers');
+
+    injector.destroy();
+    expect(log).toEqual(['Logger', 'Logger']);
+  });
+
+  it('should destroy child injectors first', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([Logger]);
+    const child = parent.resolveAndCreateChild([Service]);
+    child.get(Service);
+
+    parent.destroy();
+    expect(log).toEqual(['Service', 'Logger']);
+    expect(() => child.get(Service)).toThrowError('Injector has already been destroyed.');
+  });
+
+  it('should not destroy the parent injector', () => {
+    const parent = ReflectiveInjector.resolveAndCreate([Logger]);
+    const child = parent.resolveAndCreateChild([Service]);
+    child.get(Service);
+
+    child.destroy();
+    expect(log).toEqual(['Service']);
+    expect(parent.get(Logger) instanceof Logger).toBe(true);
+
+    parent.destroy();
+    expect(log).toEqual(['Service', 'Logger']);
+  });
+
+  it('should forget the destroyed children', () => {
+    const parent = <ReflectiveInjector_>ReflectiveInjector.resolveAndCreate([Logger]);
+    const children = [parent.resolveAndCreateChild([Service]), parent.createScope('request')];
+    const kept = parent.resolveAndCreateChild([]);
+
+    children.forEach(child => child.destroy());
+    expect(parent._children.toArray()).toEqual([<ReflectiveInjector_>kept]);
+  });
+
+  it('should not retain the children which are no longer referenced', async () => {
+    if (typeof (<any>global).WeakRef === 'undefined') {
+      pending('WeakRef is not defined');
+      return;
+    }
+    v8.setFlagsFromString('--expose-gc');
+    const gc: () => void = vm.runInNewContext('gc');
+    const parent = <ReflectiveInjector_>ReflectiveInjector.resolveAndCreate([Logger]);
+    for (let i = 0; i < 100; i++) {
+      parent.resolveAndCreateChild([Service]).get(Service);
+    }
+    const kept = parent.resolveAndCreateChild([]);
+
+    // WeakRef targets are kept alive until the end of the current job.
+    await new Promise(resolve => setTimeout(resolve));
+    gc();
+    expect(parent._children.toArray()).toEqual([<ReflectiveInjector_>kept]);
+  });
+
+  it('should throw when retrieving from a destroyed injector', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Logger]);
+    injector.destroy();
+
+    expect(() => injector.get(Logger)).toThrowError('Injector has already been destroyed.');
+    expect(() => injector.resolveAndCreateChild([])).toThrowError('Injector has already been destroyed.');
+  });
+
+  it('should be a no-op when called twice', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Logger]);
+    injector.get(Logger);
+
+    injector.destroy();
+    injector.destroy();
+    expect(log).toEqual(['Logger']);
+  });
+});
+
+describe('disposal', () => {
+  const dispose: symbol = (<any>Symbol).dispose;
+  const asyncDispose: symbol = (<any>Symbol).asyncDispose;
+  let log: string[];
+
+  class Pool {
+    [asyncDispose]() {
+      return Promise.resolve().then(() => log.push('Pool'));
+    }
+  }
+
+  @Injectable()
+  class Buffer {
+    constructor(public pool: Pool) {}
+
+    [dispose]() {
+      log.push('Buffer');
+    }
+  }
+
+  class Broken {
+    ngOnDestroy() {
+      throw new Error('Broken');
+    }
+  }
+
+  beforeEach(() => {
+    if (dispose === undefined || asyncDispose === undefined) {
+      pending('Symbol.dispose and Symbol.asyncDispose are not defined by this runtime');
+    }
+    log = [];
+  });
+
+  it('should await async disposers in reverse instantiation order', async () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Buffer, Pool]);
+    injector.get(Buffer);
+
+    await injector.destroyAsync();
+    expect(log).toEqual(['Buffer', 'Pool']);
+  });
+
+  it('should call Symbol.dispose on synchronous destroy', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Buffer, Pool]);
+    injector.get(Buffer);
+
+    injector.destroy();
+    expect(log).toEqual(['Buffer']);
+  });
+
+  it('should implement Symbol.asyncDispose and Symbol.dispose', async () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Buffer, Pool]);
+    injector.get(Buffer);
+
+    await injector[Symbol.asyncDispose]();
+    expect(log).toEqual(['Buffer', 'Pool']);
+    expect(injector[Symbol.dispose]).toBe(injector.destroy);
+  });
+
+  it('should destroy child injectors first', async () => {
+    const parent = ReflectiveInjector.resolveAndCreate([Pool]);
+    const child = parent.resolveAndCreateChild([Buffer]);
+    child.get(Buffer);
+
+    await parent.destroyAsync();
+    expect(log).toEqual(['Buffer', 'Pool']);
+  });
+
+  it('should aggregate errors thrown by disposers', async () => {
+    const parent = ReflectiveInjector.resolveAndCreate([Pool, { provide: 'broken', useClass: Broken }]);
+    const child = parent.resolveAndCreateChild([Buffer, Broken]);
+    parent.get('broken');
+    child.get(Broken);
+    child.get(Buffer);
+
+    try {
+      await parent.destroyAsync();
+      throw 'Must throw';
+    } catch (e) {
+      expect(e.message).toEqual('Error during destroy of Broken (Broken), broken (Broken)!');
+      expect(e.keys.map((k: ReflectiveKey) => k.token)).toEqual([Broken, 'broken']);
+      expect(e.errors.length).toEqual(2);
+      expect(getOriginalError(e)).toBe(e.errors[0]);
+    }
+    expect(log).toEqual(['Buffer', 'Pool']);
+  });
+
+  it('should aggregate errors thrown by synchronous destroy hooks', () => {
+    const injector = ReflectiveInjector.resolveAndCreate([Buffer, Pool, Broken]);
+    injector.get(Buffer);
+    injector.get(Broken);
+
+    expect(() => injector.destroy()).toThrowError('Error during destroy of Broken (Broken)!');
+    expect(log).toEqual(['Buffer']);
+  });
+});
+
 describe('resolve', () => {
   it('should resolve and flatten', () => {
     const providers = ReflectiveInjector.resolve([Engine, [BrokenEngine]]);
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import 'reflect-metadata';
+
+import { Injectable, InjectProperty, ReflectiveInjector, StandardInject, StandardInjectable } from '../lib';
+
+/**
+ * `Symbol`, with `Symbol.metadata` which the runtimes do not all define yet.
+ */
+const SymbolWithMetadata: { metadata?: symbol } = <any>Symbol;
+
+type MemberDecorator = (value: unknown, context: any) => void;
+
+/**
+ * Applies standard decorators to `cls` like TypeScript 5 does without `experimentalDecorators`,
+ * which the compiler of these tests does not support.
+ */
+function decorate<T extends Function>(
+  cls: T,
+  classDecorators: ((value: T, context: any) => void)[],
+  members: { [name: string]: { kind: 'field' | 'accessor' | 'method'; decorators: MemberDecorator[] } } = {}
+): T {
+  const parent = Object.getPrototypeOf(cls);
+  const metadata = Object.create((parent && parent[SymbolWithMetadata.metadata!]) || null);
+  Object.keys(members).forEach(name => {
+    const member = members[name];
+    member.decorators.forEach(decorator => decorator(undefined, { kind: member.kind, name, static: false, private: false, metadata }));
+  });
+  classDecorators.forEach(decorator => decorator(cls, { kind: 'class', name: cls.name, metadata }));
+  Object.defineProperty(cls, SymbolWithMetadata.metadata!, { value: metadata, configurable: true });
+  return cls;
+}
+
+class Engine {}
+
+class Radio {}
+
+describe('standard decorators', () => {
+  let polyfilled = false;
+
+  // Polyfills `Symbol.metadata` for these specs only, when the runtime does not define it.
+  beforeAll(() => {
+    polyfilled = SymbolWithMetadata.metadata === undefined;
+    if (polyfilled) {
+      SymbolWithMetadata.metadata = Symbol('Symbol.metadata');
+    }
+  });
+
+  afterAll(() => {
+    if (polyfilled) {
+      delete SymbolWithMetadata.metadata;
+    }
+  });
+
+  it('should read the options of StandardInjectable', () => {
+    const Car = decorate(class Car {}, [StandardInjectable({ scope: 'transient' })]);
+    const injector = ReflectiveInjector.resolveAndCreate([Car]);
+
+    expect(injector.get(Car)).not.toBe(injector.get(Car));
+  });
+
+  it('should inject fields and accessors', () => {
+    class Car {
+      engine!: Engine;
+      private _radio: Radio | null = null;
+
+      get radio() {
+        return this._radio;
+      }
+
+      set radio(radio: Radio | null) {
+        this._radio = radio;
+      }
+    }
+    decorate(Car, [StandardInjectable()], {
+      engine: { kind: 'field', decorators: [StandardInject(Engine)] },
+      radio: { kind: 'accessor', decorators: [StandardInject(Radio)] },
+    });
+    const injector = ReflectiveInjector.resolveAndCreate([Car, Engine, Radio]);
+
+    const car = injector.get(Car);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.radio).toBe(injector.get(Radio));
+  });
+
+  it('should apply the modifiers of the injected properties', () => {
+    class Car {
+      engine!: Engine;
+      radio!: Radio | null;
+    }
+    decorate(Car, [StandardInjectable()], {
+      engine: { kind: 'field', decorators: [StandardInject(Engine, { skipSelf: true })] },
+      radio: { kind: 'field', decorators: [StandardInject(Radio, { optional: true })] },
+    });
+    const parent = ReflectiveInjector.resolveAndCreate([Engine]);
+    const child = parent.resolveAndCreateChild([Car, Engine]);
+
+    expect(child.get(Car).engine).toBe(parent.get(Engine));
+    expect(child.get(Car).radio).toBe(null);
+  });
+
+  it('should inherit the metadata of legacy and standard decorators', () => {
+    @Injectable({ scope: 'transient' })
+    class Vehicle {
+      @InjectProperty() engine!: Engine;
+    }
+    class Car extends Vehicle {
+      radio!: Radio;
+    }
+    decorate(Car, [StandardInjectable()], { radio: { kind: 'field', decorators: [StandardInject(Radio)] } });
+    @Injectable()
+    class SportsCar extends Car {}
+    const injector = ReflectiveInjector.resolveAndCreate([SportsCar, Engine, Radio]);
+
+    const car = injector.get(SportsCar);
+    expect(car.engine).toBe(injector.get(Engine));
+    expect(car.radio).toBe(injector.get(Radio));
+    expect(car).not.toBe(injector.get(SportsCar));
+  });
+
+  it('should throw when decorating a method', () => {
+    expect(() => decorate(class Car {}, [], { start: { kind: 'method', decorators: [StandardInject(Engine)] } })).toThrowError(
+      'Cannot inject the method start, only public instance fields and accessors can be injected'
+    );
+  });
+
+  it('should throw without Symbol.metadata', () => {
+    expect(() => StandardInjectable()(class Car {}, { kind: 'class', name: 'Car', metadata: undefined })).toThrowError(
+      /Symbol.metadata is required when using standard decorators/
+    );
+  });
+});
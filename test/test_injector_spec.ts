@@ -0,0 +1,202 @@
+/**
+ * @license
+ * Copyright Google Inc. All Rights Reserved.
+ *
+ * Use of this source code is governed by an MIT-style license that can be
+ * found in the LICENSE file at https://angular.io/license
+ */
+
+import 'reflect-metadata';
+
+import { Inject, Injectable, InjectionToken, Optional } from '../lib';
+import { TestInjector } from '../lib/testing';
+
+class Engine {}
+
+class MockEngine extends Engine {}
+
+@Injectable()
+class Car {
+  constructor(public engine: Engine) {}
+}
+
+@Injectable()
+class Garage {
+  constructor(public car: Car) {}
+}
+
+@Injectable({ providedIn: 'root' })
+class Radio {}
+
+const PLUGINS = new InjectionToken<string[]>('plugins');
+
+describe('TestInjector', () => {
+  const providers = [Engine, Car, { provide: PLUGINS, useValue: 'a', multi: true }, { provide: PLUGINS, useValue: 'b', multi: true }];
+
+  it('should create the injector from the production providers', () => {
+    const testInjector = new TestInjector(providers);
+
+    expect(testInjector.get(Car).engine).toBe(testInjector.injector.get(Engine));
+    expect(testInjector.get(PLUGINS)).toEqual(['a', 'b']);
+  });
+
+  it('should override the dependencies of transitive dependencies', () => {
+    const testInjector = new TestInjector([Garage].concat(<any[]>providers));
+    testInjector.overrideProvider(Engine, { useClass: MockEngine });
+
+    expect(testInjector.get(Garage).car.engine instanceof MockEngine).toBe(true);
+  });
+
+  it('should override a token with a value', () => {
+    const engine = new MockEngine();
+    const testInjector = new TestInjector(providers).overrideValue(Engine, engine);
+
+    expect(testInjector.get(Car).engine).toBe(engine);
+  });
+
+  it('should override the tokens provided by child injectors', () => {
+    const testInjector = new TestInjector([]).overrideProvider(Engine, { useClass: MockEngine });
+
+    const child = testInjector.injector.resolveAndCreateChild([]).resolveAndCreateChild([Engine, Car]);
+    expect(child.get(Car).engine instanceof MockEngine).toBe(true);
+  });
+
+  it('should override the entries of multi tokens', () => {
+    const testInjector = new TestInjector(providers).overrideProvider(PLUGINS, [
+      { useValue: 'c', multi: true },
+      { useValue: 'd', multi: true },
+    ]);
+
+    expect(testInjector.get(PLUGINS)).toEqual(['c', 'd']);
+    const child = testInjector.injector.resolveAndCreateChild([{ provide: PLUGINS, useValue: 'e', multi: true, extend: true }]);
+    expect(child.get(PLUGINS)).toEqual(['c', 'd']);
+  });
+
+  it('should inject the value overriding a multi token as is', () => {
+    const testInjector = new TestInjector(providers).overrideValue(PLUGINS, ['c']);
+
+    expect(testInjector.get(PLUGINS)).toEqual(['c']);
+  });
+
+  it('should override tokens which are provided in root', () => {
+    const testInjector = new TestInjector([]).overrideValue(Radio, 'radio');
+
+    expect(testInjector.injector.resolveAndCreateChild([]).get(Radio)).toEqual('radio');
+  });
+
+  it('should throw when overriding a token after creating the injector', () => {
+    const testInjector = new TestInjector(providers);
+    testInjector.get(Engine);
+
+    expect(() => testInjector.overrideValue(Engine, null)).toThrowError(
+      'Cannot override Engine, the test injector has already been created! Call reset() first.'
+    );
+  });
+
+  it('should destroy the injector and clear the overrides on reset', () => {
+    const destroyed: string[] = [];
+    class DestroyableEngine {
+      ngOnDestroy() {
+        destroyed.push('engine');
+      }
+    }
+    const testInjector = new TestInjector([{ provide: Engine, useClass: DestroyableEngine }]);
+    testInjector.overrideValue(Car, 'car');
+    const engine = testInjector.get(Engine);
+
+    testInjector.reset();
+    expect(destroyed).toEqual(['engine']);
+    expect(testInjector.get(Car, null)).toBe(null);
+    expect(testInjector.get(Engine)).not.toBe(engine);
+  });
+
+  describe('after each spec', () => {
+    const testInjector = new TestInjector(providers);
+
+    it('should use the overrides', () => {
+      testInjector.overrideProvider(Engine, { useClass: MockEngine });
+      expect(testInjector.get(Engine) instanceof MockEngine).toBe(true);
+    });
+
+    afterAll(() => {
+      expect(testInjector.get(Engine) instanceof MockEngine).toBe(false);
+    });
+  });
+});
+
+describe('TestInjector with automatic mocks', () => {
+  class Http {
+    get(url: string): any {
+      throw new Error('Not mocked');
+    }
+  }
+
+  class CachingHttp extends Http {
+    clear() {}
+  }
+
+  const API = new InjectionToken<any>('api');
+
+  @Injectable()
+  class UserService {
+    constructor(public http: CachingHttp, @Inject(API) public api: any, @Optional() public engine: Engine) {}
+  }
+
+  it('should inject mocks of the prototype methods of missing classes', () => {
+    const testInjector = new TestInjector([UserService], undefined, { autoMock: true });
+
+    const service = testInjector.get(UserService);
+    expect(service.http instanceof CachingHttp).toBe(true);
+    expect(service.http).toBe(testInjector.getMock(CachingHttp));
+    expect(service.http.get('/users')).toBeUndefined();
+    expect(service.http.clear()).toBeUndefined();
+    expect(testInjector.getMock(CachingHttp).get.calls).toEqual([['/users']]);
+  });
+
+  it('should inject proxies for missing injection tokens', () => {
+    const testInjector = new TestInjector([UserService], undefined, { autoMock: true });
+
+    const api = testInjector.get(UserService).api;
+    api.fetch(1, 2);
+    expect(api.fetch.calls).toEqual([[1, 2]]);
+    expect(api.then).toBeUndefined();
+  });
+
+  it('should inject mocks configured before instantiation', () => {
+    const testInjector = new TestInjector([UserService], undefined, { autoMock: true });
+    testInjector.getMock(CachingHttp).get = (url: string) => `response of ${url}`;
+
+    expect(testInjector.get(UserService).http.get('/users')).toEqual('response of /users');
+  });
+
+  it('should not mock optional dependencies', () => {
+    const testInjector = new TestInjector([UserService], undefined, { autoMock: true });
+
+    expect(testInjector.get(UserService).engine).toBe(null);
+    expect(testInjector.get(Engine, null)).toBe(null);
+  });
+
+  it('should inject mocks in child injectors', () => {
+    const testInjector = new TestInjector([], undefined, { autoMock: true });
+
+    const child = testInjector.injector.resolveAndCreateChild([UserService]);
+    expect(child.get(UserService).http).toBe(testInjector.getMock(CachingHttp));
+  });
+
+  it('should create new mocks after a reset', () => {
+    const testInjector = new TestInjector([UserService], undefined, { autoMock: true });
+    const mock = testInjector.get(UserService).http;
+
+    testInjector.reset();
+    expect(testInjector.get(UserService).http).not.toBe(mock);
+  });
+
+  it('should throw when the mocks are not enabled', () => {
+    const testInjector = new TestInjector([UserService]);
+
+    expect(() => testInjector.getMock(Http)).toThrowError(
+      'Cannot get the mock of Http, the test injector has been created without the autoMock option!'
+    );
+    expect(() => testInjector.get(UserService)).toThrowError(/No provider for CachingHttp!/);
+  });
+});
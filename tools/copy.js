@@ -12,6 +12,7 @@ function main() {
 
   copyFileSync(resolve(projectRoot, 'README.md'), resolve(distPath, 'README.md'));
   writeFileSync(resolve(distPath, 'package.json'), distPackageJson);
+  writeFileSync(resolve(distPath, 'testing', 'package.json'), createTestingPackageJson(packageJson));
 }
 
 /**
@@ -23,3 +24,21 @@ function createDistPackageJson(packageConfig) {
 
   return JSON.stringify(distPackageJson, null, 2);
 }
+
+/**
+ * The `injection-js/testing` entry point, which loads the main entry point instead of bundling it.
+ *
+ * @param {typeof packageJson} packageConfig
+ * @return {string}
+ */
+function createTestingPackageJson(packageConfig) {
+  const testingPackageJson = {
+    name: `${packageConfig.name}/testing`,
+    main: 'testing.bundle.js',
+    module: 'index.js',
+    'jsnext:main': 'index.js',
+    types: 'index.d.ts',
+  };
+
+  return JSON.stringify(testingPackageJson, null, 2);
+}